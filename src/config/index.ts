@@ -30,6 +30,49 @@ export const config = {
     maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
   },
   
+  // Analytics Configuration
+  analytics: {
+    // Salt for hashing visitor IPs; never store raw addresses. Required in production
+    ipHashSalt: process.env.ANALYTICS_IP_SALT || 'development-analytics-salt',
+    // Events per IP and invitation; views drive view_count and template popularity
+    eventWindowMs: parseInt(process.env.ANALYTICS_EVENT_WINDOW_MS || '60000', 10), // 1 minute
+    maxEvents: parseInt(process.env.ANALYTICS_MAX_EVENTS || '30', 10),
+  },
+  
+  // Media Storage Configuration
+  storage: {
+    // 'supabase' (Supabase Storage) or 'local' (disk, for development)
+    driver: (process.env.STORAGE_DRIVER || (process.env.NODE_ENV === 'production' ? 'supabase' : 'local')) as 'supabase' | 'local',
+    bucket: process.env.STORAGE_BUCKET || 'invitation-media',
+    localDir: process.env.STORAGE_LOCAL_DIR || 'uploads',
+    publicBaseUrl: process.env.STORAGE_PUBLIC_BASE_URL || `http://localhost:${process.env.PORT || '3001'}/uploads`,
+  },
+  
+  // Scheduler Configuration (scheduled publishing, expiry and template popularity)
+  scheduler: {
+    // In-process runs on long-lived servers; Vercel calls the cron endpoint instead
+    enabled: process.env.SCHEDULER_ENABLED !== 'false',
+    intervalMs: parseInt(process.env.SCHEDULER_INTERVAL_MS || '60000', 10),
+    expireAfterEventDays: parseInt(process.env.EXPIRE_AFTER_EVENT_DAYS || '7', 10),
+    // Template popularity is rescored at most this often
+    popularityIntervalMs: parseInt(process.env.TEMPLATE_POPULARITY_INTERVAL_MS || '3600000', 10),
+    cronSecret: process.env.CRON_SECRET || '',
+  },
+  
+  // Private Invitation Access Configuration
+  invitationAccess: {
+    // Signs access cookies; kept apart from JWT_SECRET so they can never pass as user tokens. Required in production
+    secret: process.env.INVITATION_ACCESS_SECRET || 'development-invitation-access-secret',
+    // Lifetime of the cookie issued after a correct password or guest token
+    cookieTtlMs: parseInt(process.env.INVITATION_ACCESS_TTL_MS || '43200000', 10), // 12 hours
+    // Access attempts per IP and invitation
+    attemptWindowMs: parseInt(process.env.INVITATION_ACCESS_WINDOW_MS || '900000', 10), // 15 minutes
+    maxAttempts: parseInt(process.env.INVITATION_ACCESS_MAX_ATTEMPTS || '5', 10),
+    // RSVP submissions per IP and invitation; each one can add a guest
+    rsvpWindowMs: parseInt(process.env.INVITATION_RSVP_WINDOW_MS || '3600000', 10), // 1 hour
+    maxRsvps: parseInt(process.env.INVITATION_RSVP_MAX || '10', 10),
+  },
+  
   // Logging Configuration
   logging: {
     logtailToken: process.env.LOGTAIL_TOKEN,
@@ -57,6 +100,14 @@ export const config = {
     if (this.jwt.secret.length < 32 && this.nodeEnv === 'production') {
       throw new Error('JWT_SECRET must be at least 32 characters in production');
     }
+
+    if (!process.env.ANALYTICS_IP_SALT && this.nodeEnv === 'production') {
+      throw new Error('ANALYTICS_IP_SALT is required in production');
+    }
+
+    if (!process.env.INVITATION_ACCESS_SECRET && this.nodeEnv === 'production') {
+      throw new Error('INVITATION_ACCESS_SECRET is required in production');
+    }
   }
 };
 
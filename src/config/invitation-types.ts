@@ -0,0 +1,519 @@
+import { InvitationType, InvitationTypeConfig, FormFieldConfig, FormStepConfig } from '../types/invitation';
+
+// Fields shared by several invitation types
+const venueFields: Record<string, FormFieldConfig> = {
+  venueName: { type: 'text', label: 'Venue name', placeholder: 'Grand Ballroom', required: true, validation: { maxLength: 255 } },
+  venueAddress: { type: 'textarea', label: 'Venue address', required: true, validation: { maxLength: 500 } }
+};
+
+const messageFields: Record<string, FormFieldConfig> = {
+  message: { type: 'textarea', label: 'Message to guests', required: false, validation: { maxLength: 2000 } },
+  hashtag: { type: 'text', label: 'Hashtag', placeholder: '#OurBigDay', required: false, validation: { maxLength: 100, pattern: '^#?[A-Za-z0-9_]+$' } }
+};
+
+const rsvpField: Record<string, FormFieldConfig> = {
+  rsvpEnabled: { type: 'checkbox', label: 'Collect RSVPs', required: true }
+};
+
+const bankAccountFields: Record<string, FormFieldConfig> = {
+  giftRegistryEnabled: { type: 'checkbox', label: 'Show gift registry', required: true },
+  'bankAccount.bankName': {
+    type: 'text', label: 'Bank name', required: true,
+    dependency: { field: 'giftRegistryEnabled', value: true }
+  },
+  'bankAccount.accountNumber': {
+    type: 'text', label: 'Account number', required: true,
+    validation: { pattern: '^[0-9 -]+$' },
+    dependency: { field: 'giftRegistryEnabled', value: true }
+  },
+  'bankAccount.accountName': {
+    type: 'text', label: 'Account holder', required: true,
+    dependency: { field: 'giftRegistryEnabled', value: true }
+  }
+};
+
+const detailsStep = (fields: Record<string, FormFieldConfig>): FormStepConfig => ({
+  id: 'details',
+  title: 'Extras',
+  description: 'RSVP and optional extras',
+  icon: 'settings',
+  fields,
+  rules: []
+});
+
+// Multi-step wizard configuration per invitation type, served to the dashboard and enforced on publish
+export const INVITATION_TYPE_CONFIGS: Record<InvitationType, InvitationTypeConfig> = {
+  [InvitationType.WEDDING]: {
+    type: InvitationType.WEDDING,
+    name: 'Wedding',
+    description: 'Invite guests to your wedding ceremony and reception',
+    previewComponent: 'WeddingPreview',
+    defaultData: { timeline: [], rsvpEnabled: true, giftRegistryEnabled: false },
+    steps: [
+      {
+        id: 'couple',
+        title: 'The Couple',
+        description: 'Who is getting married',
+        icon: 'heart',
+        fields: {
+          groomName: { type: 'text', label: 'Groom name', required: true, validation: { maxLength: 100 } },
+          brideName: { type: 'text', label: 'Bride name', required: true, validation: { maxLength: 100 } },
+          groomParents: { type: 'list', label: "Groom's parents", required: false, validation: { maxItems: 2 } },
+          brideParents: { type: 'list', label: "Bride's parents", required: false, validation: { maxItems: 2 } }
+        },
+        rules: []
+      },
+      {
+        id: 'event',
+        title: 'Event',
+        description: 'When and where',
+        icon: 'calendar',
+        fields: {
+          eventDate: { type: 'date', label: 'Wedding date', required: true },
+          ceremonyTime: { type: 'time', label: 'Ceremony time', required: true },
+          receptionTime: { type: 'time', label: 'Reception time', required: false },
+          ...venueFields,
+          dresscode: { type: 'text', label: 'Dress code', required: false, validation: { maxLength: 100 } }
+        },
+        rules: [
+          { rule: 'dateNotPast', field: 'eventDate', message: 'Wedding date cannot be in the past' },
+          { rule: 'timeAfter', field: 'receptionTime', compareTo: 'ceremonyTime', message: 'Reception must start after the ceremony' }
+        ]
+      },
+      {
+        id: 'story',
+        title: 'Story',
+        description: 'Your story and the schedule of the day',
+        icon: 'book',
+        fields: {
+          story: { type: 'textarea', label: 'Our story', required: false, validation: { maxLength: 5000 } },
+          ...messageFields,
+          timeline: {
+            type: 'list',
+            label: 'Timeline',
+            required: true,
+            validation: { maxItems: 20 },
+            itemFields: {
+              time: { type: 'time', label: 'Time', required: true },
+              title: { type: 'text', label: 'Title', required: true, validation: { maxLength: 100 } },
+              description: { type: 'textarea', label: 'Description', required: false },
+              location: { type: 'text', label: 'Location', required: false }
+            }
+          }
+        },
+        rules: []
+      },
+      detailsStep({
+        ...rsvpField,
+        ...bankAccountFields,
+        'backgroundMusic.enabled': { type: 'checkbox', label: 'Background music', required: false },
+        'backgroundMusic.url': {
+          type: 'url', label: 'Music URL', required: true,
+          dependency: { field: 'backgroundMusic.enabled', value: true }
+        },
+        'backgroundMusic.autoplay': {
+          type: 'checkbox', label: 'Autoplay', required: false,
+          dependency: { field: 'backgroundMusic.enabled', value: true }
+        },
+        'backgroundMusic.volume': {
+          type: 'number', label: 'Volume', required: false,
+          validation: { min: 0, max: 100 },
+          dependency: { field: 'backgroundMusic.enabled', value: true }
+        }
+      })
+    ]
+  },
+
+  [InvitationType.BIRTHDAY]: {
+    type: InvitationType.BIRTHDAY,
+    name: 'Birthday',
+    description: 'Celebrate a birthday with friends and family',
+    previewComponent: 'BirthdayPreview',
+    defaultData: { activities: [], rsvpEnabled: true },
+    steps: [
+      {
+        id: 'celebrant',
+        title: 'Celebrant',
+        description: 'Whose birthday it is',
+        icon: 'cake',
+        fields: {
+          celebrantName: { type: 'text', label: 'Celebrant name', required: true, validation: { maxLength: 100 } },
+          age: { type: 'number', label: 'Turning', required: true, validation: { min: 0, max: 150 } },
+          celebrantPhoto: { type: 'file', label: 'Photo', required: false }
+        },
+        rules: []
+      },
+      {
+        id: 'event',
+        title: 'Party',
+        description: 'When and where',
+        icon: 'calendar',
+        fields: {
+          partyDate: { type: 'date', label: 'Party date', required: true },
+          partyTime: { type: 'time', label: 'Party time', required: true },
+          ...venueFields,
+          theme: { type: 'text', label: 'Theme', required: false, validation: { maxLength: 100 } },
+          dresscode: { type: 'text', label: 'Dress code', required: false, validation: { maxLength: 100 } }
+        },
+        rules: [
+          { rule: 'dateNotPast', field: 'partyDate', message: 'Party date cannot be in the past' }
+        ]
+      },
+      {
+        id: 'program',
+        title: 'Program',
+        description: 'What is happening at the party',
+        icon: 'list',
+        fields: {
+          ...messageFields,
+          activities: {
+            type: 'list',
+            label: 'Activities',
+            required: true,
+            validation: { maxItems: 20 },
+            itemFields: {
+              time: { type: 'time', label: 'Time', required: true },
+              activity: { type: 'text', label: 'Activity', required: true, validation: { maxLength: 100 } },
+              location: { type: 'text', label: 'Location', required: false }
+            }
+          }
+        },
+        rules: []
+      },
+      detailsStep({
+        ...rsvpField,
+        'giftRegistry.enabled': { type: 'checkbox', label: 'Show wishlist', required: false },
+        'giftRegistry.wishlistUrl': {
+          type: 'url', label: 'Wishlist URL', required: false,
+          dependency: { field: 'giftRegistry.enabled', value: true }
+        },
+        'giftRegistry.preferences': {
+          type: 'textarea', label: 'Gift preferences', required: false,
+          dependency: { field: 'giftRegistry.enabled', value: true }
+        }
+      })
+    ]
+  },
+
+  [InvitationType.GRADUATION]: {
+    type: InvitationType.GRADUATION,
+    name: 'Graduation',
+    description: 'Share a graduation ceremony and celebration',
+    previewComponent: 'GraduationPreview',
+    defaultData: { achievements: [], rsvpEnabled: true },
+    steps: [
+      {
+        id: 'graduate',
+        title: 'Graduate',
+        description: 'Who is graduating',
+        icon: 'graduation-cap',
+        fields: {
+          graduateName: { type: 'text', label: 'Graduate name', required: true, validation: { maxLength: 100 } },
+          degree: { type: 'text', label: 'Degree', required: true, validation: { maxLength: 150 } },
+          school: { type: 'text', label: 'School', required: true, validation: { maxLength: 150 } },
+          achievements: { type: 'list', label: 'Achievements', required: false, validation: { maxItems: 10 } }
+        },
+        rules: []
+      },
+      {
+        id: 'event',
+        title: 'Ceremony',
+        description: 'When and where',
+        icon: 'calendar',
+        fields: {
+          graduationDate: { type: 'date', label: 'Graduation date', required: true },
+          ceremonyTime: { type: 'time', label: 'Ceremony time', required: true },
+          ...venueFields
+        },
+        rules: [
+          { rule: 'dateNotPast', field: 'graduationDate', message: 'Graduation date cannot be in the past' }
+        ]
+      },
+      {
+        id: 'reception',
+        title: 'Reception',
+        description: 'Optional celebration after the ceremony',
+        icon: 'glass',
+        fields: {
+          'receptionDetails.date': { type: 'date', label: 'Reception date', required: false },
+          'receptionDetails.time': { type: 'time', label: 'Reception time', required: false },
+          'receptionDetails.venue': { type: 'text', label: 'Reception venue', required: false },
+          'receptionDetails.address': { type: 'textarea', label: 'Reception address', required: false },
+          ...messageFields
+        },
+        rules: [
+          { rule: 'dateNotBefore', field: 'receptionDetails.date', compareTo: 'graduationDate', message: 'Reception cannot be before the graduation' }
+        ]
+      },
+      detailsStep({ ...rsvpField })
+    ]
+  },
+
+  [InvitationType.BABY_SHOWER]: {
+    type: InvitationType.BABY_SHOWER,
+    name: 'Baby Shower',
+    description: 'Welcome the new baby with a shower',
+    previewComponent: 'BabyShowerPreview',
+    defaultData: { parentNames: [], gender: 'surprise', rsvpEnabled: true },
+    steps: [
+      {
+        id: 'family',
+        title: 'Family',
+        description: 'The parents and the baby',
+        icon: 'baby',
+        fields: {
+          parentNames: { type: 'list', label: 'Parent names', required: true, validation: { minItems: 1, maxItems: 2 } },
+          babyName: { type: 'text', label: 'Baby name', required: false, validation: { maxLength: 100 } },
+          dueDate: { type: 'date', label: 'Due date', required: true },
+          gender: { type: 'select', label: 'Gender', required: false, validation: { options: ['boy', 'girl', 'surprise'] } }
+        },
+        rules: []
+      },
+      {
+        id: 'event',
+        title: 'Shower',
+        description: 'When and where',
+        icon: 'calendar',
+        fields: {
+          partyDate: { type: 'date', label: 'Shower date', required: true },
+          partyTime: { type: 'time', label: 'Shower time', required: true },
+          ...venueFields,
+          theme: { type: 'text', label: 'Theme', required: false, validation: { maxLength: 100 } }
+        },
+        rules: [
+          { rule: 'dateNotPast', field: 'partyDate', message: 'Shower date cannot be in the past' }
+        ]
+      },
+      {
+        id: 'program',
+        title: 'Program',
+        description: 'Games and message',
+        icon: 'list',
+        fields: {
+          ...messageFields,
+          games: {
+            type: 'list',
+            label: 'Games',
+            required: false,
+            validation: { maxItems: 10 },
+            itemFields: {
+              name: { type: 'text', label: 'Game', required: true, validation: { maxLength: 100 } },
+              description: { type: 'textarea', label: 'Description', required: false }
+            }
+          }
+        },
+        rules: []
+      },
+      detailsStep({
+        ...rsvpField,
+        'giftRegistry.enabled': { type: 'checkbox', label: 'Show registry', required: false },
+        'giftRegistry.registryUrl': {
+          type: 'url', label: 'Registry URL', required: false,
+          dependency: { field: 'giftRegistry.enabled', value: true }
+        },
+        'giftRegistry.preferences': {
+          type: 'textarea', label: 'Gift preferences', required: false,
+          dependency: { field: 'giftRegistry.enabled', value: true }
+        }
+      })
+    ]
+  },
+
+  [InvitationType.BUSINESS]: {
+    type: InvitationType.BUSINESS,
+    name: 'Business Event',
+    description: 'Conferences, launches and corporate gatherings',
+    previewComponent: 'BusinessPreview',
+    defaultData: { agenda: [], rsvpEnabled: true, requiresApproval: false },
+    steps: [
+      {
+        id: 'event-info',
+        title: 'Event',
+        description: 'What the event is',
+        icon: 'briefcase',
+        fields: {
+          eventTitle: { type: 'text', label: 'Event title', required: true, validation: { maxLength: 150 } },
+          company: { type: 'text', label: 'Company', required: true, validation: { maxLength: 150 } },
+          eventType: {
+            type: 'select', label: 'Event type', required: true,
+            validation: { options: ['conference', 'seminar', 'product_launch', 'networking', 'meeting', 'other'] }
+          },
+          dresscode: { type: 'text', label: 'Dress code', required: false, validation: { maxLength: 100 } }
+        },
+        rules: []
+      },
+      {
+        id: 'event',
+        title: 'Schedule',
+        description: 'When and where',
+        icon: 'calendar',
+        fields: {
+          eventDate: { type: 'date', label: 'Event date', required: true },
+          eventTime: { type: 'time', label: 'Start time', required: true },
+          ...venueFields
+        },
+        rules: [
+          { rule: 'dateNotPast', field: 'eventDate', message: 'Event date cannot be in the past' }
+        ]
+      },
+      {
+        id: 'agenda',
+        title: 'Agenda',
+        description: 'Sessions and speakers',
+        icon: 'list',
+        fields: {
+          agenda: {
+            type: 'list',
+            label: 'Agenda',
+            required: true,
+            validation: { minItems: 1, maxItems: 30 },
+            itemFields: {
+              time: { type: 'time', label: 'Time', required: true },
+              topic: { type: 'text', label: 'Topic', required: true, validation: { maxLength: 150 } },
+              speaker: { type: 'text', label: 'Speaker', required: false, validation: { maxLength: 100 } }
+            }
+          }
+        },
+        rules: []
+      },
+      {
+        id: 'contact',
+        title: 'Contact',
+        description: 'Who guests can reach out to',
+        icon: 'user',
+        fields: {
+          'contactPerson.name': { type: 'text', label: 'Contact name', required: true, validation: { maxLength: 100 } },
+          'contactPerson.email': { type: 'email', label: 'Contact email', required: true },
+          'contactPerson.phone': { type: 'tel', label: 'Contact phone', required: false },
+          ...rsvpField,
+          requiresApproval: { type: 'checkbox', label: 'Approve registrations manually', required: true }
+        },
+        rules: []
+      }
+    ]
+  },
+
+  [InvitationType.ANNIVERSARY]: {
+    type: InvitationType.ANNIVERSARY,
+    name: 'Anniversary',
+    description: 'Celebrate years together',
+    previewComponent: 'AnniversaryPreview',
+    defaultData: { timeline: [], rsvpEnabled: true, giftRegistryEnabled: false },
+    steps: [
+      {
+        id: 'couple',
+        title: 'The Couple',
+        description: 'Who is celebrating',
+        icon: 'heart',
+        fields: {
+          partnerOneName: { type: 'text', label: 'First partner', required: true, validation: { maxLength: 100 } },
+          partnerTwoName: { type: 'text', label: 'Second partner', required: true, validation: { maxLength: 100 } },
+          years: { type: 'number', label: 'Years together', required: true, validation: { min: 1, max: 100 } },
+          weddingDate: { type: 'date', label: 'Wedding date', required: false },
+          couplePhoto: { type: 'file', label: 'Couple photo', required: false }
+        },
+        rules: []
+      },
+      {
+        id: 'event',
+        title: 'Celebration',
+        description: 'When and where',
+        icon: 'calendar',
+        fields: {
+          eventDate: { type: 'date', label: 'Celebration date', required: true },
+          eventTime: { type: 'time', label: 'Start time', required: true },
+          ...venueFields,
+          dresscode: { type: 'text', label: 'Dress code', required: false, validation: { maxLength: 100 } }
+        },
+        rules: [
+          { rule: 'dateNotPast', field: 'eventDate', message: 'Celebration date cannot be in the past' },
+          { rule: 'dateNotBefore', field: 'eventDate', compareTo: 'weddingDate', message: 'Celebration cannot be before the wedding date' }
+        ]
+      },
+      {
+        id: 'story',
+        title: 'Story',
+        description: 'Your journey together',
+        icon: 'book',
+        fields: {
+          story: { type: 'textarea', label: 'Our story', required: false, validation: { maxLength: 5000 } },
+          ...messageFields,
+          timeline: {
+            type: 'list',
+            label: 'Program',
+            required: false,
+            validation: { maxItems: 20 },
+            itemFields: {
+              time: { type: 'time', label: 'Time', required: true },
+              title: { type: 'text', label: 'Title', required: true, validation: { maxLength: 100 } },
+              description: { type: 'textarea', label: 'Description', required: false }
+            }
+          }
+        },
+        rules: []
+      },
+      detailsStep({ ...rsvpField, ...bankAccountFields })
+    ]
+  },
+
+  [InvitationType.PARTY]: {
+    type: InvitationType.PARTY,
+    name: 'Party',
+    description: 'Any get-together, from house parties to reunions',
+    previewComponent: 'PartyPreview',
+    defaultData: { activities: [], rsvpEnabled: true },
+    steps: [
+      {
+        id: 'party',
+        title: 'Party',
+        description: 'What you are celebrating',
+        icon: 'party',
+        fields: {
+          partyTitle: { type: 'text', label: 'Party title', required: true, validation: { maxLength: 150 } },
+          hostName: { type: 'text', label: 'Host', required: true, validation: { maxLength: 100 } },
+          occasion: { type: 'text', label: 'Occasion', required: false, validation: { maxLength: 100 } },
+          theme: { type: 'text', label: 'Theme', required: false, validation: { maxLength: 100 } },
+          dresscode: { type: 'text', label: 'Dress code', required: false, validation: { maxLength: 100 } }
+        },
+        rules: []
+      },
+      {
+        id: 'event',
+        title: 'Event',
+        description: 'When and where',
+        icon: 'calendar',
+        fields: {
+          partyDate: { type: 'date', label: 'Party date', required: true },
+          partyTime: { type: 'time', label: 'Start time', required: true },
+          endTime: { type: 'time', label: 'End time', required: false },
+          ...venueFields
+        },
+        rules: [
+          { rule: 'dateNotPast', field: 'partyDate', message: 'Party date cannot be in the past' }
+        ]
+      },
+      {
+        id: 'program',
+        title: 'Program',
+        description: 'What is happening at the party',
+        icon: 'list',
+        fields: {
+          ...messageFields,
+          activities: {
+            type: 'list',
+            label: 'Activities',
+            required: false,
+            validation: { maxItems: 20 },
+            itemFields: {
+              time: { type: 'time', label: 'Time', required: true },
+              activity: { type: 'text', label: 'Activity', required: true, validation: { maxLength: 100 } },
+              location: { type: 'text', label: 'Location', required: false }
+            }
+          }
+        },
+        rules: []
+      },
+      detailsStep({ ...rsvpField })
+    ]
+  }
+};
@@ -0,0 +1,56 @@
+import { MediaType } from '../types/invitation';
+
+export interface MediaTypeRule {
+  fileType: 'image' | 'audio'
+  mimeTypes: string[]
+  maxFileSize: number // bytes
+  maxItems: number // per invitation
+}
+
+const MB = 1024 * 1024;
+
+const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const AUDIO_MIME_TYPES = ['audio/mpeg', 'audio/mp4', 'audio/aac', 'audio/ogg', 'audio/wav'];
+
+// Stored file extension for each accepted MIME type
+export const MIME_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/aac': '.aac',
+  'audio/ogg': '.ogg',
+  'audio/wav': '.wav'
+};
+
+// Upload limits per invitation_media.media_type
+export const MEDIA_TYPE_RULES: Record<MediaType, MediaTypeRule> = {
+  [MediaType.HERO_IMAGE]: {
+    fileType: 'image',
+    mimeTypes: IMAGE_MIME_TYPES,
+    maxFileSize: 10 * MB,
+    maxItems: 1
+  },
+  [MediaType.GALLERY]: {
+    fileType: 'image',
+    mimeTypes: IMAGE_MIME_TYPES,
+    maxFileSize: 10 * MB,
+    maxItems: 30
+  },
+  [MediaType.BACKGROUND_MUSIC]: {
+    fileType: 'audio',
+    mimeTypes: AUDIO_MIME_TYPES,
+    maxFileSize: 15 * MB,
+    maxItems: 1
+  }
+};
+
+// Hard cap enforced while the multipart body is streamed, before media_type is known
+export const MAX_UPLOAD_SIZE = Math.max(...Object.values(MEDIA_TYPE_RULES).map(rule => rule.maxFileSize));
+
+// Generated variants of uploaded images
+export const IMAGE_VARIANTS = {
+  thumbnail: { width: 400, height: 400, quality: 75 },
+  compressed: { width: 1920, height: 1920, quality: 82 }
+};
@@ -0,0 +1,40 @@
+export const SLUG_MIN_LENGTH = 3;
+export const SLUG_MAX_LENGTH = 60;
+
+// Slugs that would clash with app routes or could be mistaken for official pages
+export const RESERVED_SLUGS = new Set([
+  'about',
+  'account',
+  'admin',
+  'api',
+  'app',
+  'assets',
+  'auth',
+  'billing',
+  'blog',
+  'checkout',
+  'contact',
+  'dashboard',
+  'edit',
+  'help',
+  'invitation',
+  'invitations',
+  'login',
+  'logout',
+  'new',
+  'official',
+  'preview',
+  'pricing',
+  'privacy',
+  'public',
+  'register',
+  'rsvp',
+  'settings',
+  'signup',
+  'static',
+  'support',
+  'templates',
+  'terms',
+  'uploads',
+  'www'
+]);
@@ -0,0 +1,40 @@
+import { Request, Response } from 'express';
+import { ActivityService } from '../services/ActivityService';
+
+export class ActivityController {
+  /**
+   * List the user's invitation activity, newest first
+   * GET /api/invitations/activity?page=1&limit=20
+   */
+  static async list(req: Request, res: Response): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const { page, limit } = req.query as unknown as { page: number; limit: number };
+
+      const result = await ActivityService.list(user_id, { page, limit });
+
+      res.json({
+        success: true,
+        data: result,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error listing activity:', error);
+      res.status(500).json({
+        success: false,
+        data: null,
+        error: { message: 'Internal server error' }
+      });
+    }
+  }
+}
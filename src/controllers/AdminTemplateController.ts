@@ -0,0 +1,173 @@
+import { Request, Response } from 'express';
+import { TemplateService } from '../services/TemplateService';
+import { CreateTemplateRequest, UpdateTemplateRequest, InvitationType } from '../types/invitation';
+import { successResponse, errorResponse, parsePaginationQuery, calculatePagination } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+export class AdminTemplateController {
+  /**
+   * List templates, including deactivated ones unless filtered by is_active
+   */
+  static async getTemplates(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, limit } = parsePaginationQuery(req.query);
+      const { category, is_active, search } = req.query as {
+        category?: InvitationType;
+        is_active?: boolean;
+        search?: string;
+      };
+
+      const result = await TemplateService.list({
+        page,
+        limit,
+        category,
+        search,
+        isActive: is_active ?? 'all',
+        sortBy: 'newest'
+      });
+
+      res.json(successResponse(result.templates, calculatePagination(page, limit, result.total)));
+
+    } catch (error) {
+      logger.error('Get templates error:', error);
+      res.status(500).json(errorResponse('Failed to fetch templates'));
+    }
+  }
+
+  /**
+   * Get a template by ID, including deactivated ones
+   */
+  static async getTemplateById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const template = await TemplateService.getByIdIncludingInactive(id);
+
+      if (!template) {
+        res.status(404).json(errorResponse('Template not found'));
+        return;
+      }
+
+      res.json(successResponse(template));
+
+    } catch (error) {
+      logger.error('Get template by ID error:', error);
+      res.status(500).json(errorResponse('Failed to fetch template'));
+    }
+  }
+
+  /**
+   * Create a template
+   */
+  static async createTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.admin) {
+        res.status(401).json(errorResponse('Not authenticated'));
+        return;
+      }
+
+      const templateData: CreateTemplateRequest = req.body;
+
+      const template = await TemplateService.create(templateData, req.admin.id);
+
+      res.status(201).json(successResponse(template));
+
+    } catch (error) {
+      logger.error('Create template error:', error);
+      res.status(500).json(errorResponse('Failed to create template'));
+    }
+  }
+
+  /**
+   * Update a template
+   */
+  static async updateTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const updateData: UpdateTemplateRequest = req.body;
+
+      const template = await TemplateService.update(id, updateData);
+
+      res.json(successResponse(template));
+
+    } catch (error) {
+      logger.error('Update template error:', error);
+      AdminTemplateController.sendError(res, error, 'Failed to update template');
+    }
+  }
+
+  /**
+   * Hide a template from the catalog
+   */
+  static async deactivateTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const template = await TemplateService.setActive(id, false);
+
+      res.json(successResponse(template));
+
+    } catch (error) {
+      logger.error('Deactivate template error:', error);
+      AdminTemplateController.sendError(res, error, 'Failed to deactivate template');
+    }
+  }
+
+  /**
+   * Put a deactivated template back in the catalog
+   */
+  static async activateTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const template = await TemplateService.setActive(id, true);
+
+      res.json(successResponse(template));
+
+    } catch (error) {
+      logger.error('Activate template error:', error);
+      AdminTemplateController.sendError(res, error, 'Failed to activate template');
+    }
+  }
+
+  /**
+   * Delete a template
+   */
+  static async deleteTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      await TemplateService.delete(id);
+
+      res.json(successResponse({ message: 'Template deleted successfully' }));
+
+    } catch (error) {
+      logger.error('Delete template error:', error);
+      AdminTemplateController.sendError(res, error, 'Failed to delete template');
+    }
+  }
+
+  /**
+   * Map service errors to HTTP responses
+   */
+  private static sendError(res: Response, error: unknown, fallback: string): void {
+    const message = error instanceof Error ? error.message : '';
+
+    if (message === 'Template not found') {
+      res.status(404).json(errorResponse(message));
+      return;
+    }
+
+    if (message === 'Premium templates must have a price') {
+      res.status(400).json(errorResponse(message));
+      return;
+    }
+
+    if (message === 'Template is in use') {
+      res.status(409).json(errorResponse('Template is in use by invitations or orders; deactivate it instead'));
+      return;
+    }
+
+    res.status(500).json(errorResponse(fallback));
+  }
+}
@@ -0,0 +1,50 @@
+import { Request, Response } from 'express';
+import { AnalyticsService } from '../services/AnalyticsService';
+import { AnalyticsDateRange } from '../types/invitation';
+
+export class AnalyticsController {
+  /**
+   * Get the analytics dashboard of an invitation
+   * GET /api/invitations/:id/analytics?from=YYYY-MM-DD&to=YYYY-MM-DD
+   */
+  static async getInvitationAnalytics(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const range = req.query as Partial<AnalyticsDateRange>;
+
+      const analytics = await AnalyticsService.getInvitationAnalytics(id, user_id, range);
+
+      res.json({
+        success: true,
+        data: analytics,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error getting invitation analytics:', error);
+      if (error instanceof Error && error.message === 'Invitation not found') {
+        res.status(404).json({
+          success: false,
+          data: null,
+          error: { message: 'Invitation not found' }
+        });
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        data: null,
+        error: { message: 'Internal server error' }
+      });
+    }
+  }
+}
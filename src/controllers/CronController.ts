@@ -0,0 +1,27 @@
+import { Request, Response } from 'express';
+import { SchedulerService } from '../services/SchedulerService';
+
+export class CronController {
+  /**
+   * Run the invitation scheduler (scheduled publishing, expiry and template popularity)
+   * GET /api/cron/scheduler
+   */
+  static async runScheduler(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await SchedulerService.run();
+
+      res.json({
+        success: true,
+        data: result,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error running scheduler:', error);
+      res.status(500).json({
+        success: false,
+        data: null,
+        error: { message: 'Internal server error' }
+      });
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import { Request, Response } from 'express';
+import { GuestService } from '../services/GuestService';
+import { CreateGuestRequest, UpdateGuestRequest, GuestListFilters } from '../types/invitation';
+
+export class GuestController {
+  /**
+   * List guests of an invitation
+   * GET /api/invitations/:id/guests
+   */
+  static async list(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const filters = req.query as unknown as GuestListFilters;
+
+      const result = await GuestService.list(id, user_id, filters);
+
+      res.json({
+        success: true,
+        data: result,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error listing guests:', error);
+      GuestController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Get a single guest
+   * GET /api/invitations/:id/guests/:guestId
+   */
+  static async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, guestId } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const guest = await GuestService.getById(id, guestId, user_id);
+
+      if (!guest) {
+        res.status(404).json({
+          success: false,
+          data: null,
+          error: { message: 'Guest not found' }
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: guest,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error getting guest:', error);
+      GuestController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Add a guest
+   * POST /api/invitations/:id/guests
+   */
+  static async create(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const data: CreateGuestRequest = req.body;
+
+      const guest = await GuestService.create(id, user_id, data);
+
+      res.status(201).json({
+        success: true,
+        data: guest,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error creating guest:', error);
+      GuestController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Edit a guest
+   * PUT /api/invitations/:id/guests/:guestId
+   */
+  static async update(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, guestId } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const updates: UpdateGuestRequest = req.body;
+
+      const guest = await GuestService.update(id, guestId, user_id, updates);
+
+      res.json({
+        success: true,
+        data: guest,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error updating guest:', error);
+      GuestController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Delete a guest
+   * DELETE /api/invitations/:id/guests/:guestId
+   */
+  static async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, guestId } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      await GuestService.delete(id, guestId, user_id);
+
+      res.json({
+        success: true,
+        data: { message: 'Guest deleted successfully' },
+        error: null
+      });
+    } catch (error) {
+      console.error('Error deleting guest:', error);
+      GuestController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Issue a new personalized link for a guest
+   * POST /api/invitations/:id/guests/:guestId/regenerate-token
+   */
+  static async regenerateToken(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, guestId } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const guest = await GuestService.regenerateToken(id, guestId, user_id);
+
+      res.json({
+        success: true,
+        data: guest,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error regenerating guest token:', error);
+      GuestController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Map service errors to HTTP responses
+   */
+  private static sendError(res: Response, error: unknown): void {
+    if (error instanceof Error && (error.message === 'Invitation not found' || error.message === 'Guest not found')) {
+      res.status(404).json({
+        success: false,
+        data: null,
+        error: { message: error.message }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      data: null,
+      error: { message: 'Internal server error' }
+    });
+  }
+}
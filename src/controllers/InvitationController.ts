@@ -1,7 +1,13 @@
 import { Request, Response } from 'express';
-import { InvitationService } from '../services/InvitationService';
-import { CreateInvitationRequest, UpdateInvitationRequest, InvitationType, InvitationStatus } from '../types/invitation';
-import { validateInvitationData, ValidationResult } from '../utils/validation';
+import { InvitationService, InvitationConflictError } from '../services/InvitationService';
+import { SlugService } from '../services/SlugService';
+import { InvitationAccessService } from '../services/InvitationAccessService';
+import { TemplateVersionService } from '../services/TemplateVersionService';
+import { Invitation, CreateInvitationRequest, UpdateInvitationRequest, PublishInvitationRequest, InvitationType, InvitationStatus, ValidationError, JsonPatchOperation, UpdateInvitationAccessRequest } from '../types/invitation';
+import { InvitationNotReadyError } from '../services/ReadinessService';
+import { validateInvitationData } from '../utils/validation';
+import { applyJsonPatch, JsonPatchError } from '../utils/json-patch';
+import { mergePatch } from '../utils/helpers';
 
 export class InvitationController {
   static async create(req: Request, res: Response): Promise<void> {
@@ -28,14 +34,10 @@ export class InvitationController {
         return;
       }
 
-      // Validate form data structure
-      const validationResult = validateInvitationData(type, form_data);
+      // New invitations are drafts, so form data may still be incomplete
+      const validationResult = validateInvitationData(type, form_data, 'draft');
       if (!validationResult.isValid) {
-        res.status(400).json({
-          success: false,
-          data: null,
-          error: { message: validationResult.errors.join(', ') }
-        });
+        InvitationController.sendValidationError(res, validationResult.errors);
         return;
       }
 
@@ -43,31 +45,10 @@ export class InvitationController {
         type,
         title,
         form_data,
-        template_id: req.body.template_id
+        template_id: req.body.template_id,
+        slug: req.body.slug
       };
 
-      // If template_id is provided, validate it exists
-      if (data.template_id) {
-        try {
-          // Check template exists - this will throw if not found
-          // await TemplateService.getById(data.template_id);
-        } catch (templateError) {
-          res.status(400).json({ 
-            success: false,
-            data: null,
-            error: { message: 'Template not found' }
-          });
-          return;
-        }
-
-        // Validate template matches invitation type
-        // if (template.type !== type) {
-        //   return res.status(400).json({
-        //     error: 'Template type does not match invitation type'
-        //   });
-        // }
-      }
-
       const invitation = await InvitationService.create(user_id, data);
 
       res.status(201).json({
@@ -77,6 +58,15 @@ export class InvitationController {
       });
     } catch (error) {
       console.error('Error creating invitation:', error);
+      const status = InvitationController.slugErrorStatus(error) || InvitationController.templateErrorStatus(error);
+      if (status) {
+        res.status(status).json({
+          success: false,
+          data: null,
+          error: { message: (error as Error).message }
+        });
+        return;
+      }
       res.status(500).json({
         success: false,
         data: null,
@@ -101,6 +91,16 @@ export class InvitationController {
 
       const invitation = await InvitationService.getById(id, user_id);
 
+      if (!invitation) {
+        res.status(404).json({
+          success: false,
+          data: null,
+          error: { message: 'Invitation not found' }
+        });
+        return;
+      }
+
+      InvitationController.setVersion(res, invitation);
       res.json({
         success: true,
         data: invitation,
@@ -130,7 +130,10 @@ export class InvitationController {
         return;
       }
 
-      const updates: UpdateInvitationRequest = req.body;
+      const updates: UpdateInvitationRequest = {
+        ...req.body,
+        expected_version: InvitationController.expectedVersion(req)
+      };
 
       // Validate form data if provided
       if (updates.form_data) {
@@ -146,13 +149,12 @@ export class InvitationController {
             return;
           }
           
-          const validationResult = validateInvitationData(currentInvitation.type, updates.form_data);
+          // A published invitation must stay complete; drafts only need valid fields
+          const validationResult = currentInvitation.is_published
+            ? validateInvitationData(currentInvitation.type, { ...currentInvitation.form_data, ...updates.form_data }, 'publish', currentInvitation.form_data)
+            : validateInvitationData(currentInvitation.type, updates.form_data, 'draft');
           if (!validationResult.isValid) {
-            res.status(400).json({
-              success: false,
-              data: null,
-              error: { message: validationResult.errors.join(', ') }
-            });
+            InvitationController.sendValidationError(res, validationResult.errors);
             return;
           }
         } catch (fetchError) {
@@ -167,6 +169,7 @@ export class InvitationController {
 
       const invitation = await InvitationService.update(id, user_id, updates);
 
+      InvitationController.setVersion(res, invitation);
       res.json({
         success: true,
         data: invitation,
@@ -174,6 +177,129 @@ export class InvitationController {
       });
     } catch (error) {
       console.error('Error updating invitation:', error);
+      if (error instanceof InvitationConflictError) {
+        InvitationController.sendConflict(res, error.current);
+        return;
+      }
+      const templateStatus = InvitationController.templateErrorStatus(error);
+      if (templateStatus) {
+        res.status(templateStatus).json({
+          success: false,
+          data: null,
+          error: { message: (error as Error).message }
+        });
+        return;
+      }
+      if (error instanceof Error && error.message === 'Invitation not found') {
+        res.status(404).json({
+          success: false,
+          data: null,
+          error: { message: 'Invitation not found' }
+        });
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        data: null,
+        error: { message: 'Internal server error' }
+      });
+    }
+  }
+
+  /**
+   * Partially update an invitation
+   * PATCH /api/invitations/:id
+   * - application/json-patch+json: RFC 6902 operations applied to form_data
+   * - application/json or application/merge-patch+json: form_data and template_customization are merged
+   *   as RFC 7396 merge patches (null removes a key)
+   */
+  static async patch(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const currentInvitation = await InvitationService.getById(id, user_id);
+      if (!currentInvitation) {
+        res.status(404).json({
+          success: false,
+          data: null,
+          error: { message: 'Invitation not found' }
+        });
+        return;
+      }
+
+      let updates: UpdateInvitationRequest;
+      if (req.is('application/json-patch+json')) {
+        const operations: JsonPatchOperation[] = req.body;
+        updates = {
+          form_data: applyJsonPatch(currentInvitation.form_data, operations),
+          expected_version: InvitationController.expectedVersion(req)
+        };
+      } else {
+        const body: UpdateInvitationRequest = req.body;
+        updates = {
+          ...body,
+          form_data: body.form_data && mergePatch(currentInvitation.form_data, body.form_data),
+          template_customization: body.template_customization
+            && mergePatch(currentInvitation.template_customization || {}, body.template_customization),
+          expected_version: InvitationController.expectedVersion(req)
+        };
+      }
+
+      // The whole resulting form data is checked, since nested values may have been removed
+      if (updates.form_data) {
+        const validationResult = validateInvitationData(
+          currentInvitation.type,
+          updates.form_data,
+          currentInvitation.is_published ? 'publish' : 'draft',
+          currentInvitation.form_data
+        );
+        if (!validationResult.isValid) {
+          InvitationController.sendValidationError(res, validationResult.errors);
+          return;
+        }
+      }
+
+      const invitation = await InvitationService.update(id, user_id, updates, true);
+
+      InvitationController.setVersion(res, invitation);
+      res.json({
+        success: true,
+        data: invitation,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error patching invitation:', error);
+      if (error instanceof InvitationConflictError) {
+        InvitationController.sendConflict(res, error.current);
+        return;
+      }
+      if (error instanceof JsonPatchError) {
+        res.status(422).json({
+          success: false,
+          data: null,
+          error: { message: error.message, code: 'INVALID_PATCH' }
+        });
+        return;
+      }
+      const templateStatus = InvitationController.templateErrorStatus(error);
+      if (templateStatus) {
+        res.status(templateStatus).json({
+          success: false,
+          data: null,
+          error: { message: (error as Error).message }
+        });
+        return;
+      }
       if (error instanceof Error && error.message === 'Invitation not found') {
         res.status(404).json({
           success: false,
@@ -204,7 +330,9 @@ export class InvitationController {
         return;
       }
 
-      const invitation = await InvitationService.publish(id, user_id);
+      const publishData: PublishInvitationRequest = req.body;
+
+      const invitation = await InvitationService.publish(id, user_id, publishData);
 
       res.json({
         success: true,
@@ -213,6 +341,57 @@ export class InvitationController {
       });
     } catch (error) {
       console.error('Error publishing invitation:', error);
+      if (error instanceof InvitationNotReadyError) {
+        res.status(422).json({
+          success: false,
+          data: error.readiness,
+          error: { message: error.message, code: 'NOT_READY' }
+        });
+        return;
+      }
+      if (error instanceof Error && error.message === 'Invitation not found') {
+        res.status(404).json({
+          success: false,
+          data: null,
+          error: { message: 'Invitation not found' }
+        });
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        data: null,
+        error: { message: 'Internal server error' }
+      });
+    }
+  }
+
+  /**
+   * Get the publish checklist of an invitation
+   * GET /api/invitations/:id/readiness
+   */
+  static async getReadiness(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const readiness = await InvitationService.getReadiness(id, user_id);
+
+      res.json({
+        success: true,
+        data: readiness,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error checking invitation readiness:', error);
       if (error instanceof Error && error.message === 'Invitation not found') {
         res.status(404).json({
           success: false,
@@ -372,6 +551,223 @@ export class InvitationController {
     }
   }
 
+  /**
+   * Check whether a vanity slug can be used
+   * GET /api/invitations/slug-availability?slug=anna-and-ben&invitation_id=<id>
+   */
+  static async checkSlugAvailability(req: Request, res: Response): Promise<void> {
+    try {
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const { slug, invitation_id } = req.query as { slug: string; invitation_id?: string };
+
+      const availability = await SlugService.checkAvailability(slug, invitation_id);
+
+      res.json({
+        success: true,
+        data: availability,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error checking slug availability:', error);
+      res.status(500).json({
+        success: false,
+        data: null,
+        error: { message: 'Internal server error' }
+      });
+    }
+  }
+
+  /**
+   * Change the slug of an invitation
+   * PUT /api/invitations/:id/slug
+   */
+  static async changeSlug(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const invitation = await SlugService.change(id, user_id, req.body.slug);
+
+      InvitationController.setVersion(res, invitation);
+      res.json({
+        success: true,
+        data: invitation,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error changing invitation slug:', error);
+      const message = error instanceof Error ? error.message : '';
+      const status = message === 'Invitation not found' ? 404 : InvitationController.slugErrorStatus(error) || 500;
+      res.status(status).json({
+        success: false,
+        data: null,
+        error: { message: status === 500 ? 'Internal server error' : message }
+      });
+    }
+  }
+
+  /**
+   * Choose who can open an invitation: anyone, password holders or listed guests
+   * PUT /api/invitations/:id/access
+   */
+  static async updateAccess(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const data: UpdateInvitationAccessRequest = req.body;
+
+      const invitation = await InvitationAccessService.updateSettings(id, user_id, data);
+
+      InvitationController.setVersion(res, invitation);
+      res.json({
+        success: true,
+        data: invitation,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error updating invitation access:', error);
+      const message = error instanceof Error ? error.message : '';
+      let status = 500;
+      if (message === 'Invitation not found') status = 404;
+      else if (message.startsWith('Password is required')) status = 400;
+
+      res.status(status).json({
+        success: false,
+        data: null,
+        error: { message: status === 500 ? 'Internal server error' : message }
+      });
+    }
+  }
+
+  /**
+   * Report which fields of an invitation a template would display before switching to it
+   * GET /api/invitations/:id/template-compatibility?template_id=
+   */
+  static async checkTemplateCompatibility(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const report = await InvitationService.checkTemplateCompatibility(id, user_id, req.query.template_id as string);
+
+      res.json({
+        success: true,
+        data: report,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error checking template compatibility:', error);
+      const message = error instanceof Error ? error.message : '';
+      const status = message === 'Invitation not found' || message === 'Template not found' ? 404 : 500;
+      res.status(status).json({
+        success: false,
+        data: null,
+        error: { message: status === 500 ? 'Internal server error' : message }
+      });
+    }
+  }
+
+  /**
+   * Preview moving an invitation to the latest version of its template
+   * GET /api/invitations/:id/template-upgrade
+   */
+  static async previewTemplateUpgrade(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const preview = await TemplateVersionService.previewUpgrade(id, user_id);
+
+      res.json({
+        success: true,
+        data: preview,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error previewing template upgrade:', error);
+      InvitationController.sendTemplateUpgradeError(res, error);
+    }
+  }
+
+  /**
+   * Move an invitation to the latest version of its template
+   * POST /api/invitations/:id/template-upgrade
+   */
+  static async upgradeTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const invitation = await TemplateVersionService.upgrade(id, user_id, req.body.version);
+
+      InvitationController.setVersion(res, invitation);
+      res.json({
+        success: true,
+        data: invitation,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error upgrading invitation template:', error);
+      InvitationController.sendTemplateUpgradeError(res, error);
+    }
+  }
+
   static async getBySlug(req: Request, res: Response): Promise<void> {
     try {
       const { slug } = req.params;
@@ -425,4 +821,96 @@ export class InvitationController {
       });
     }
   }
+
+  /**
+   * Version the client must send back in If-Match to edit this copy
+   */
+  private static setVersion(res: Response, invitation: Invitation): void {
+    res.set('ETag', `"${invitation.content_version}"`);
+  }
+
+  /**
+   * Version the client edited: the If-Match header, falling back to expected_version in the body.
+   * "If-Match: *" only requires the invitation to exist; a malformed tag matches no version.
+   */
+  private static expectedVersion(req: Request): number | undefined {
+    const ifMatch = req.get('If-Match');
+    if (!ifMatch) return Array.isArray(req.body) ? undefined : req.body?.expected_version;
+    if (ifMatch.trim() === '*') return undefined;
+
+    const tag = ifMatch.split(',')[0].trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1');
+    return /^\d+$/.test(tag) ? parseInt(tag, 10) : 0;
+  }
+
+  /**
+   * Respond with the current server version so the client can rebase its edits
+   */
+  private static sendConflict(res: Response, current: Invitation): void {
+    InvitationController.setVersion(res, current);
+    res.status(409).json({
+      success: false,
+      data: current,
+      error: {
+        message: 'Invitation was modified by someone else',
+        code: 'VERSION_CONFLICT'
+      }
+    });
+  }
+
+  /**
+   * HTTP status of a rejected slug, or null for other errors
+   */
+  private static slugErrorStatus(error: unknown): number | null {
+    const message = error instanceof Error ? error.message : '';
+
+    if (message === 'Slug is already taken') return 409;
+    if (message === 'Slug is reserved' || message.startsWith('Slug must')) return 400;
+    return null;
+  }
+
+  /**
+   * HTTP status of a rejected template choice, or null for other errors
+   */
+  private static templateErrorStatus(error: unknown): number | null {
+    const message = error instanceof Error ? error.message : '';
+
+    if (
+      message === 'Template not found' ||
+      message === 'Template category does not match invitation type' ||
+      message === 'Premium template has not been paid for'
+    ) return 400;
+    return null;
+  }
+
+  /**
+   * Map template upgrade errors to HTTP responses
+   */
+  private static sendTemplateUpgradeError(res: Response, error: unknown): void {
+    const message = error instanceof Error ? error.message : '';
+    let status = 500;
+    if (message === 'Invitation not found' || message === 'Template not found') status = 404;
+    else if (message === 'Invitation has no template') status = 400;
+    else if (message === 'Template changed since the preview') status = 409;
+
+    res.status(status).json({
+      success: false,
+      data: null,
+      error: { message: status === 500 ? 'Internal server error' : message }
+    });
+  }
+
+  /**
+   * Respond with field-path form data errors
+   */
+  private static sendValidationError(res: Response, errors: ValidationError[]): void {
+    res.status(400).json({
+      success: false,
+      data: null,
+      error: {
+        message: 'Invalid form data',
+        code: 'VALIDATION_ERROR',
+        details: errors
+      }
+    });
+  }
 }
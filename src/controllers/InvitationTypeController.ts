@@ -0,0 +1,57 @@
+import { Request, Response } from 'express';
+import { INVITATION_TYPE_CONFIGS } from '../config/invitation-types';
+import { InvitationType, InvitationTypeSummary } from '../types/invitation';
+
+export class InvitationTypeController {
+  /**
+   * List the available invitation types
+   * GET /api/invitation-types
+   */
+  static async list(req: Request, res: Response): Promise<void> {
+    try {
+      const types: InvitationTypeSummary[] = Object.values(INVITATION_TYPE_CONFIGS).map(config => ({
+        type: config.type,
+        name: config.name,
+        description: config.description,
+        previewComponent: config.previewComponent,
+        step_count: config.steps.length
+      }));
+
+      res.json({
+        success: true,
+        data: types,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error listing invitation types:', error);
+      res.status(500).json({
+        success: false,
+        data: null,
+        error: { message: 'Internal server error' }
+      });
+    }
+  }
+
+  /**
+   * Get the multi-step form configuration of an invitation type
+   * GET /api/invitation-types/:type/form
+   */
+  static async getForm(req: Request, res: Response): Promise<void> {
+    try {
+      const type = req.params.type as InvitationType;
+
+      res.json({
+        success: true,
+        data: INVITATION_TYPE_CONFIGS[type],
+        error: null
+      });
+    } catch (error) {
+      console.error('Error getting invitation type form:', error);
+      res.status(500).json({
+        success: false,
+        data: null,
+        error: { message: 'Internal server error' }
+      });
+    }
+  }
+}
@@ -0,0 +1,259 @@
+import { Request, Response } from 'express';
+import { MediaService } from '../services/MediaService';
+import { MediaType, UploadMediaRequest } from '../types/invitation';
+
+export class MediaController {
+  /**
+   * List media of an invitation
+   * GET /api/invitations/:id/media?media_type=gallery
+   */
+  static async list(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const { media_type } = req.query as { media_type?: MediaType };
+
+      const media = await MediaService.list(id, user_id, media_type);
+
+      res.json({
+        success: true,
+        data: media,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error listing media:', error);
+      MediaController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Upload a media file (multipart field "file")
+   * POST /api/invitations/:id/media
+   */
+  static async upload(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          data: null,
+          error: { message: 'File is required' }
+        });
+        return;
+      }
+
+      const data: UploadMediaRequest = req.body;
+
+      const media = await MediaService.upload(id, user_id, req.file, data);
+
+      res.status(201).json({
+        success: true,
+        data: media,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error uploading media:', error);
+      MediaController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Set the display order of media items
+   * PUT /api/invitations/:id/media/order
+   */
+  static async reorder(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const { media_ids } = req.body as { media_ids: string[] };
+
+      const media = await MediaService.reorder(id, user_id, media_ids);
+
+      res.json({
+        success: true,
+        data: media,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error reordering media:', error);
+      MediaController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Edit a media item's alt text
+   * PUT /api/invitations/:id/media/:mediaId
+   */
+  static async update(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, mediaId } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const { alt_text } = req.body as { alt_text: string | null };
+
+      const media = await MediaService.updateAltText(id, mediaId, user_id, alt_text);
+
+      res.json({
+        success: true,
+        data: media,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error updating media:', error);
+      MediaController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Make an image the invitation's hero image
+   * POST /api/invitations/:id/media/:mediaId/set-hero
+   */
+  static async setHero(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, mediaId } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const media = await MediaService.setHero(id, mediaId, user_id);
+
+      res.json({
+        success: true,
+        data: media,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error setting hero image:', error);
+      MediaController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Use an image as the invitation's og_image_url
+   * POST /api/invitations/:id/media/:mediaId/set-og-image
+   */
+  static async setOgImage(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, mediaId } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const invitation = await MediaService.setOgImage(id, mediaId, user_id);
+
+      res.json({
+        success: true,
+        data: invitation,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error setting preview image:', error);
+      MediaController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Delete a media item and its stored files
+   * DELETE /api/invitations/:id/media/:mediaId
+   */
+  static async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, mediaId } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      await MediaService.delete(id, mediaId, user_id);
+
+      res.json({
+        success: true,
+        data: { message: 'Media deleted successfully' },
+        error: null
+      });
+    } catch (error) {
+      console.error('Error deleting media:', error);
+      MediaController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Map service errors to HTTP responses
+   */
+  private static sendError(res: Response, error: unknown): void {
+    const message = error instanceof Error ? error.message : '';
+
+    let status = 500;
+    if (message === 'Invitation not found' || message === 'Media not found') status = 404;
+    else if (message.startsWith('Only images')) status = 400;
+    else if (message.startsWith('File too large')) status = 413;
+    else if (message.startsWith('Unsupported file type')) status = 415;
+    else if (message.startsWith('Media limit reached')) status = 409;
+
+    res.status(status).json({
+      success: false,
+      data: null,
+      error: { message: status === 500 ? 'Internal server error' : message }
+    });
+  }
+}
@@ -0,0 +1,168 @@
+import { Request, Response } from 'express';
+import { PlanService } from '../services/PlanService';
+import { CreatePlanRequest, UpdatePlanRequest } from '../types';
+import { successResponse, errorResponse, parsePaginationQuery } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+export class PlanController {
+  /**
+   * Get paginated list of plans
+   */
+  static async getPlans(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, limit } = parsePaginationQuery(req.query);
+      const { type, is_active } = req.query as { type?: 'FREE' | 'PREMIUM'; is_active?: boolean };
+
+      const result = await PlanService.getPlans({
+        page,
+        limit,
+        type,
+        is_active
+      });
+
+      res.json(successResponse(result.plans, result.meta));
+
+    } catch (error) {
+      logger.error('Get plans error:', error);
+      res.status(500).json(errorResponse('Failed to fetch plans'));
+    }
+  }
+
+  /**
+   * Get plan by ID
+   */
+  static async getPlanById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const plan = await PlanService.getPlanById(id);
+
+      if (!plan) {
+        res.status(404).json(errorResponse('Plan not found'));
+        return;
+      }
+
+      res.json(successResponse(plan));
+
+    } catch (error) {
+      logger.error('Get plan by ID error:', error);
+      res.status(500).json(errorResponse('Failed to fetch plan'));
+    }
+  }
+
+  /**
+   * Create a new plan
+   */
+  static async createPlan(req: Request, res: Response): Promise<void> {
+    try {
+      const planData: CreatePlanRequest = req.body;
+
+      const newPlan = await PlanService.createPlan(planData);
+
+      res.status(201).json(successResponse(newPlan));
+
+    } catch (error) {
+      logger.error('Create plan error:', error);
+      res.status(500).json(errorResponse('Failed to create plan'));
+    }
+  }
+
+  /**
+   * Update plan
+   */
+  static async updatePlan(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const updateData: UpdatePlanRequest = req.body;
+
+      const updatedPlan = await PlanService.updatePlan(id, updateData);
+
+      res.json(successResponse(updatedPlan));
+
+    } catch (error) {
+      logger.error('Update plan error:', error);
+
+      if (error instanceof Error && error.message === 'Plan not found') {
+        res.status(404).json(errorResponse(error.message));
+        return;
+      }
+
+      res.status(500).json(errorResponse('Failed to update plan'));
+    }
+  }
+
+  /**
+   * Delete plan
+   */
+  static async deletePlan(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      await PlanService.deletePlan(id);
+
+      res.json(successResponse({ message: 'Plan deleted successfully' }));
+
+    } catch (error) {
+      logger.error('Delete plan error:', error);
+
+      if (error instanceof Error && error.message === 'Plan not found') {
+        res.status(404).json(errorResponse(error.message));
+        return;
+      }
+
+      if (error instanceof Error && error.message === 'Plan is in use') {
+        res.status(409).json(errorResponse('Plan is referenced by invites or orders; deactivate it instead'));
+        return;
+      }
+
+      res.status(500).json(errorResponse('Failed to delete plan'));
+    }
+  }
+
+  /**
+   * Get templates included in a plan
+   */
+  static async getPlanTemplates(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const templates = await PlanService.getPlanTemplates(id);
+
+      res.json(successResponse(templates));
+
+    } catch (error) {
+      logger.error('Get plan templates error:', error);
+
+      if (error instanceof Error && error.message === 'Plan not found') {
+        res.status(404).json(errorResponse(error.message));
+        return;
+      }
+
+      res.status(500).json(errorResponse('Failed to fetch plan templates'));
+    }
+  }
+
+  /**
+   * Replace the templates included in a plan
+   */
+  static async setPlanTemplates(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { template_ids } = req.body as { template_ids: string[] };
+
+      const templates = await PlanService.setPlanTemplates(id, template_ids);
+
+      res.json(successResponse(templates));
+
+    } catch (error) {
+      logger.error('Set plan templates error:', error);
+
+      if (error instanceof Error && ['Plan not found', 'Template not found'].includes(error.message)) {
+        res.status(404).json(errorResponse(error.message));
+        return;
+      }
+
+      res.status(500).json(errorResponse('Failed to update plan templates'));
+    }
+  }
+}
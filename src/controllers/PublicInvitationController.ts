@@ -0,0 +1,170 @@
+import { Request, Response } from 'express';
+import { GuestService } from '../services/GuestService';
+import { PublicInvitationService } from '../services/PublicInvitationService';
+import { AnalyticsService } from '../services/AnalyticsService';
+import { SlugService } from '../services/SlugService';
+import { InvitationAccessService } from '../services/InvitationAccessService';
+import { config } from '../config';
+import { SubmitRsvpRequest, TrackEventRequest, InvitationAccessRequest } from '../types/invitation';
+
+export class PublicInvitationController {
+  /**
+   * Get the render payload of a published invitation
+   * GET /api/public/invitations/:slug?g=<guest token>
+   */
+  static async getBySlug(req: Request, res: Response): Promise<void> {
+    try {
+      const { slug } = req.params;
+      const guestToken = typeof req.query.g === 'string' ? req.query.g : undefined;
+
+      const payload = await PublicInvitationService.getRenderPayload(slug, guestToken);
+
+      if (!payload) {
+        // Links shared before the slug was changed
+        const currentSlug = await SlugService.resolveRedirect(slug);
+        if (currentSlug) {
+          const queryIndex = req.originalUrl.indexOf('?');
+          const query = queryIndex === -1 ? '' : req.originalUrl.slice(queryIndex);
+          res.redirect(301, `${req.baseUrl}/invitations/${encodeURIComponent(currentSlug)}${query}`);
+          return;
+        }
+
+        res.status(404).json({
+          success: false,
+          data: null,
+          error: { message: 'Invitation not found' }
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: payload,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error getting public invitation:', error);
+      PublicInvitationController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Unlock a private invitation with its password or a guest token; sets a short-lived access cookie
+   * POST /api/public/invitations/:slug/access
+   */
+  static async requestAccess(req: Request, res: Response): Promise<void> {
+    try {
+      const { slug } = req.params;
+      const credentials: InvitationAccessRequest = req.body;
+
+      const { invitation, token } = await InvitationAccessService.grant(slug, credentials);
+
+      res.cookie(InvitationAccessService.cookieName(invitation.id), token, {
+        httpOnly: true,
+        secure: config.nodeEnv === 'production',
+        sameSite: 'lax',
+        maxAge: config.invitationAccess.cookieTtlMs,
+        path: '/'
+      });
+
+      res.json({
+        success: true,
+        data: { message: 'Access granted' },
+        error: null
+      });
+    } catch (error) {
+      console.error('Error granting invitation access:', error);
+      PublicInvitationController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Submit an RSVP for a published invitation
+   * POST /api/public/invitations/:slug/rsvp
+   */
+  static async submitRsvp(req: Request, res: Response): Promise<void> {
+    try {
+      const { slug } = req.params;
+      const data: SubmitRsvpRequest = req.body;
+
+      const guest = await GuestService.submitRsvp(slug, data);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          id: guest.id,
+          name: guest.name,
+          response: guest.response,
+          plus_ones_count: guest.plus_ones_count,
+          response_submitted_at: guest.response_submitted_at,
+          is_approved: guest.is_approved
+        },
+        error: null
+      });
+    } catch (error) {
+      console.error('Error submitting RSVP:', error);
+      PublicInvitationController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Record an engagement event (view, share, map_click, music_play, gallery_open, rsvp)
+   * POST /api/public/invitations/:slug/events
+   */
+  static async trackEvent(req: Request, res: Response): Promise<void> {
+    try {
+      const { slug } = req.params;
+      const event: TrackEventRequest = req.body;
+
+      await AnalyticsService.trackBySlug(slug, event, {
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+        referrer: req.get('Referer')
+      });
+
+      res.status(202).json({
+        success: true,
+        data: { message: 'Event recorded' },
+        error: null
+      });
+    } catch (error) {
+      console.error('Error tracking invitation event:', error);
+      PublicInvitationController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Map service errors to HTTP responses
+   */
+  private static sendError(res: Response, error: unknown): void {
+    const message = error instanceof Error ? error.message : '';
+
+    const statusByMessage: Record<string, number> = {
+      'Invitation not found': 404,
+      'Invitation expired': 410,
+      'Invalid guest token': 400,
+      'RSVP is not enabled for this invitation': 403,
+      'RSVP deadline has passed': 403,
+      'Guest is already on the list': 409,
+      'Incorrect password': 401,
+      'Password is required': 401,
+      'This invitation is only open to listed guests': 401
+    };
+
+    const status = statusByMessage[message];
+    if (status) {
+      res.status(status).json({
+        success: false,
+        data: null,
+        error: { message }
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      data: null,
+      error: { message: 'Internal server error' }
+    });
+  }
+}
@@ -0,0 +1,150 @@
+import { Request, Response } from 'express';
+import { RevisionService } from '../services/RevisionService';
+import { InvitationService } from '../services/InvitationService';
+
+export class RevisionController {
+  /**
+   * List revisions of an invitation
+   * GET /api/invitations/:id/revisions?page=1&limit=20
+   */
+  static async list(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const { page, limit } = req.query as unknown as { page: number; limit: number };
+
+      const result = await RevisionService.list(id, user_id, { page, limit });
+
+      res.json({
+        success: true,
+        data: result,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error listing revisions:', error);
+      RevisionController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Compare two revisions, or a revision with the current invitation
+   * GET /api/invitations/:id/revisions/diff?from=3&to=5
+   */
+  static async diff(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const { from, to } = req.query as unknown as { from: number; to?: number };
+
+      const result = await RevisionService.diff(id, user_id, from, to);
+
+      res.json({
+        success: true,
+        data: result,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error diffing revisions:', error);
+      RevisionController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Get a revision with its content
+   * GET /api/invitations/:id/revisions/:revision
+   */
+  static async getByNumber(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, revision } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const result = await RevisionService.getByNumber(id, parseInt(revision), user_id);
+
+      res.json({
+        success: true,
+        data: result,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error getting revision:', error);
+      RevisionController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Restore the content of a revision
+   * POST /api/invitations/:id/revisions/:revision/restore
+   */
+  static async restore(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, revision } = req.params;
+      const user_id = req.user?.id;
+
+      if (!user_id) {
+        res.status(401).json({
+          success: false,
+          data: null,
+          error: { message: 'User authentication required' }
+        });
+        return;
+      }
+
+      const invitation = await InvitationService.restoreRevision(id, user_id, parseInt(revision));
+
+      res.json({
+        success: true,
+        data: invitation,
+        error: null
+      });
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      RevisionController.sendError(res, error);
+    }
+  }
+
+  /**
+   * Map service errors to HTTP responses
+   */
+  private static sendError(res: Response, error: unknown): void {
+    const message = error instanceof Error ? error.message : '';
+
+    let status = 500;
+    if (message === 'Invitation not found' || message === 'Revision not found') status = 404;
+    else if (message.startsWith('Revision is incomplete')) status = 409;
+
+    res.status(status).json({
+      success: false,
+      data: null,
+      error: { message: status === 500 ? 'Internal server error' : message }
+    });
+  }
+}
@@ -1,4 +1,5 @@
 import express from 'express';
+import path from 'path';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
@@ -7,6 +8,7 @@ import cookieParser from 'cookie-parser';
 import { config } from './config';
 import { logger } from './utils/logger';
 import { testSupabaseConnection } from './utils/supabase';
+import { SchedulerService } from './services/SchedulerService';
 import { errorHandler, notFoundHandler, requestLogger } from './middleware/error';
 import adminRoutes from './routes';
 import userRoutes from './routes/user-index';
@@ -74,8 +76,8 @@ class App {
       credentials: true,
       optionsSuccessStatus: 200,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'Cookie'],
-      exposedHeaders: ['Set-Cookie']
+      allowedHeaders: ['Content-Type', 'Authorization', 'Cookie', 'If-Match'],
+      exposedHeaders: ['Set-Cookie', 'ETag']
     }));
 
     // Rate limiting
@@ -94,7 +96,11 @@ class App {
 
     // General middleware
     this.app.use(compression());
-    this.app.use(express.json({ limit: '10mb' }));
+    this.app.use(express.json({
+      limit: '10mb',
+      // PATCH bodies: RFC 6902 JSON Patch and RFC 7396 merge patch
+      type: ['application/json', 'application/json-patch+json', 'application/merge-patch+json']
+    }));
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
     this.app.use(cookieParser()); // Add cookie parser middleware
     this.app.use(requestLogger);
@@ -110,6 +116,14 @@ class App {
     // Mount user routes (for user dashboard)
     this.app.use('/api', userRoutes);
 
+    // Serve locally stored media in development
+    if (config.storage.driver === 'local') {
+      this.app.use('/uploads', express.static(path.resolve(config.storage.localDir), {
+        // The dashboard and invitation pages load these from another origin
+        setHeaders: (res) => res.set('Cross-Origin-Resource-Policy', 'cross-origin')
+      }));
+    }
+
     // Root route
     this.app.get('/', (req, res) => {
       res.json({
@@ -170,6 +184,11 @@ class App {
           logger.info('    POST /api/invitations        - Create invitation');
           logger.info('    GET  /api/templates          - Browse templates');
         });
+
+        // Scheduled publishing and expiry; serverless deployments use the cron endpoint instead
+        if (config.scheduler.enabled) {
+          SchedulerService.start(config.scheduler.intervalMs);
+        }
       } else {
         logger.info('🔶 Vercel environment detected - serverless mode');
       }
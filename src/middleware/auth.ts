@@ -1,11 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import rateLimit from 'express-rate-limit';
 import { config } from '../config';
 import { JwtPayload } from '../types';
 import { errorResponse } from '../utils/helpers';
 import { logger } from '../utils/logger';
 import { supabase } from '../utils/supabase';
 import { User } from '@supabase/supabase-js';
+import { InvitationService } from '../services/InvitationService';
+import { InvitationAccessService } from '../services/InvitationAccessService';
 
 // Extend Express Request type to include admin user and regular user
 declare global {
@@ -129,6 +133,11 @@ export function userAuth(req: Request, res: Response, next: NextFunction): void
 
     // Verify JWT token
     const decoded = jwt.verify(token, config.jwt.secret) as any;
+
+    // User tokens carry no audience; anything else was issued for another purpose
+    if (decoded.aud !== undefined) {
+      throw new jwt.JsonWebTokenError('unexpected audience');
+    }
     
     // Attach user info to request
     req.user = {
@@ -167,3 +176,112 @@ export function userAuth(req: Request, res: Response, next: NextFunction): void
     });
   }
 }
+
+/**
+ * Cron authentication via the shared CRON_SECRET bearer token (sent by Vercel Cron)
+ */
+export function cronAuth(req: Request, res: Response, next: NextFunction): void {
+  const secret = config.scheduler.cronSecret;
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(req.headers.authorization || '');
+
+  if (!secret || expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    res.status(401).json({
+      success: false,
+      data: null,
+      error: { message: 'Invalid cron secret' }
+    });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Guard public invitation routes (/invitations/:slug) of password protected and guest-list-only invitations.
+ * Visitors need a guest link token (?g= or guest_token in the body) or the access cookie.
+ */
+export async function invitationAccess(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const invitation = await InvitationService.findPublishedBySlug(req.params.slug);
+
+    // Missing, moved and expired invitations are handled by the route itself
+    if (!invitation) {
+      next();
+      return;
+    }
+
+    const guestToken = typeof req.query.g === 'string' ? req.query.g : req.body?.guest_token;
+    const allowed = await InvitationAccessService.hasAccess(invitation, {
+      guestToken,
+      accessToken: req.cookies?.[InvitationAccessService.cookieName(invitation.id)]
+    });
+
+    if (!allowed) {
+      res.status(401).json({
+        success: false,
+        data: { access_mode: invitation.access_mode },
+        error: { message: 'This invitation is private', code: 'ACCESS_REQUIRED' }
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    logger.error('Invitation access error:', error);
+    res.status(500).json({
+      success: false,
+      data: null,
+      error: { message: 'Internal server error' }
+    });
+  }
+}
+
+/**
+ * Limit failed password and guest token attempts per IP and invitation
+ */
+export const invitationAccessLimiter = rateLimit({
+  windowMs: config.invitationAccess.attemptWindowMs,
+  max: config.invitationAccess.maxAttempts,
+  keyGenerator: (req) => `${req.ip}:${req.params.slug}`,
+  skipSuccessfulRequests: true,
+  message: {
+    success: false,
+    data: null,
+    error: { message: 'Too many attempts, please try again later' }
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+/**
+ * Limit RSVP submissions per IP and invitation
+ */
+export const invitationRsvpLimiter = rateLimit({
+  windowMs: config.invitationAccess.rsvpWindowMs,
+  max: config.invitationAccess.maxRsvps,
+  keyGenerator: (req) => `${req.ip}:${req.params.slug}`,
+  message: {
+    success: false,
+    data: null,
+    error: { message: 'Too many responses, please try again later' }
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+/**
+ * Limit analytics events per IP and invitation
+ */
+export const invitationEventLimiter = rateLimit({
+  windowMs: config.analytics.eventWindowMs,
+  max: config.analytics.maxEvents,
+  keyGenerator: (req) => `${req.ip}:${req.params.slug}`,
+  message: {
+    success: false,
+    data: null,
+    error: { message: 'Too many events, please try again later' }
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { MAX_UPLOAD_SIZE } from '../config/media';
+
+// Files are kept in memory and handed to the storage backend by the service
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_UPLOAD_SIZE,
+    files: 1
+  }
+});
+
+/**
+ * Parse a single multipart file field, answering multer errors with the user API error shape
+ */
+export function uploadSingle(fieldName: string) {
+  const handler = upload.single(fieldName);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    handler(req, res, (error: unknown) => {
+      if (!error) {
+        next();
+        return;
+      }
+
+      if (error instanceof multer.MulterError) {
+        const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+        res.status(status).json({
+          success: false,
+          data: null,
+          error: { message: `Upload error: ${error.message}` }
+        });
+        return;
+      }
+
+      next(error);
+    });
+  };
+}
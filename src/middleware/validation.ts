@@ -77,3 +77,16 @@ export function validateParams(schema: ZodSchema) {
     }
   };
 }
+
+/**
+ * Middleware to validate the request body with the schema registered for its content type
+ */
+export function validateBodyByContentType(schemas: Record<string, ZodSchema>, fallback: ZodSchema) {
+  const validators = Object.entries(schemas).map(([type, schema]) => ({ type, validate: validateBody(schema) }));
+  const validateFallback = validateBody(fallback);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const match = validators.find(({ type }) => req.is(type));
+    (match ? match.validate : validateFallback)(req, res, next);
+  };
+}
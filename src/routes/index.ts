@@ -4,8 +4,8 @@ import userRoutes from './users';
 import resellerRoutes from './resellers';
 import inviteRoutes from './invites';
 import dashboardRoutes from './dashboard';
-import invitationRoutes from './invitations-test';
 import templateRoutes from './templates';
+import planRoutes from './plans';
 import publicRoutes from './public';
 
 const router = Router();
@@ -29,8 +29,8 @@ router.use('/dashboard', dashboardRoutes);
 router.use('/users', userRoutes);
 router.use('/resellers', resellerRoutes);
 router.use('/invites', inviteRoutes);
-router.use('/invitations', invitationRoutes);
 router.use('/templates', templateRoutes);
+router.use('/plans', planRoutes);
 router.use('/public', publicRoutes);
 
 export default router;
@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import { PlanController } from '../controllers/PlanController';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation';
+import { adminAuth } from '../middleware/auth';
+import { createPlanSchema, updatePlanSchema, planQuerySchema, planTemplatesSchema } from '../utils/validation';
+import { z } from 'zod';
+
+const router = Router();
+
+// UUID validation schema for params
+const uuidSchema = z.object({
+  id: z.string().uuid('Invalid plan ID format')
+});
+
+/**
+ * GET /admin/plans
+ * Get paginated list of plans
+ */
+router.get('/', adminAuth, validateQuery(planQuerySchema), PlanController.getPlans);
+
+/**
+ * POST /admin/plans
+ * Create new plan
+ */
+router.post('/', adminAuth, validateBody(createPlanSchema), PlanController.createPlan);
+
+/**
+ * GET /admin/plans/:id
+ * Get plan by ID
+ */
+router.get('/:id', adminAuth, validateParams(uuidSchema), PlanController.getPlanById);
+
+/**
+ * PUT /admin/plans/:id
+ * Update plan
+ */
+router.put('/:id', adminAuth, validateParams(uuidSchema), validateBody(updatePlanSchema), PlanController.updatePlan);
+
+/**
+ * DELETE /admin/plans/:id
+ * Delete plan that no invite or order references
+ */
+router.delete('/:id', adminAuth, validateParams(uuidSchema), PlanController.deletePlan);
+
+/**
+ * GET /admin/plans/:id/templates
+ * Get templates included in plan
+ */
+router.get('/:id/templates', adminAuth, validateParams(uuidSchema), PlanController.getPlanTemplates);
+
+/**
+ * PUT /admin/plans/:id/templates
+ * Replace templates included in plan
+ */
+router.put('/:id/templates', adminAuth, validateParams(uuidSchema), validateBody(planTemplatesSchema), PlanController.setPlanTemplates);
+
+export default router;
@@ -1,5 +1,9 @@
 import { Router } from 'express';
 import { TemplateController } from '../controllers/TemplateController';
+import { AdminTemplateController } from '../controllers/AdminTemplateController';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation';
+import { adminAuth } from '../middleware/auth';
+import { createTemplateSchema, updateTemplateSchema, templateParamsSchema, adminTemplateQuerySchema } from '../utils/validation';
 
 const router = Router();
 
@@ -11,7 +15,47 @@ router.get('/search', TemplateController.search);
 router.get('/category/:category', TemplateController.getByCategory);
 router.get('/premium', TemplateController.getPremium);
 router.get('/:id/related', TemplateController.getRelated);
-router.get('/:id', TemplateController.getById);
-router.get('/', TemplateController.list);
+
+/**
+ * GET /admin/templates
+ * List templates, including deactivated ones
+ */
+router.get('/', adminAuth, validateQuery(adminTemplateQuerySchema), AdminTemplateController.getTemplates);
+
+/**
+ * GET /admin/templates/:id
+ * Get template, including a deactivated one
+ */
+router.get('/:id', adminAuth, validateParams(templateParamsSchema), AdminTemplateController.getTemplateById);
+
+/**
+ * POST /admin/templates
+ * Create template
+ */
+router.post('/', adminAuth, validateBody(createTemplateSchema), AdminTemplateController.createTemplate);
+
+/**
+ * PUT /admin/templates/:id
+ * Update template
+ */
+router.put('/:id', adminAuth, validateParams(templateParamsSchema), validateBody(updateTemplateSchema), AdminTemplateController.updateTemplate);
+
+/**
+ * POST /admin/templates/:id/deactivate
+ * Hide template from the catalog
+ */
+router.post('/:id/deactivate', adminAuth, validateParams(templateParamsSchema), AdminTemplateController.deactivateTemplate);
+
+/**
+ * POST /admin/templates/:id/activate
+ * Show a deactivated template in the catalog again
+ */
+router.post('/:id/activate', adminAuth, validateParams(templateParamsSchema), AdminTemplateController.activateTemplate);
+
+/**
+ * DELETE /admin/templates/:id
+ * Delete template that is not in use
+ */
+router.delete('/:id', adminAuth, validateParams(templateParamsSchema), AdminTemplateController.deleteTemplate);
 
 export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { CronController } from '../controllers/CronController';
+import { cronAuth } from '../middleware/auth';
+
+const router = Router();
+
+// Cron-triggered jobs (Vercel Cron sends GET requests with the CRON_SECRET bearer token)
+router.use(cronAuth);
+
+router.get('/scheduler', CronController.runScheduler);
+router.post('/scheduler', CronController.runScheduler);
+
+export default router;
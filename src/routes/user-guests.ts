@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { GuestController } from '../controllers/GuestController';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation';
+import { createGuestSchema, updateGuestSchema, guestParamsSchema, guestQuerySchema } from '../utils/validation';
+
+// Mounted under /api/invitations/:id/guests, so the invitation ID comes from the parent router
+const router = Router({ mergeParams: true });
+
+// Guest list management
+router.get('/', validateParams(guestParamsSchema), validateQuery(guestQuerySchema), GuestController.list);
+router.post('/', validateParams(guestParamsSchema), validateBody(createGuestSchema), GuestController.create);
+router.get('/:guestId', validateParams(guestParamsSchema), GuestController.getById);
+router.put('/:guestId', validateParams(guestParamsSchema), validateBody(updateGuestSchema), GuestController.update);
+router.delete('/:guestId', validateParams(guestParamsSchema), GuestController.delete);
+
+// Personalized guest links
+router.post('/:guestId/regenerate-token', validateParams(guestParamsSchema), GuestController.regenerateToken);
+
+export default router;
@@ -3,6 +3,8 @@ import userAuthRoutes from './user-auth';
 import userInvitationRoutes from './user-invitations';
 import userTemplateRoutes from './user-templates';
 import userPublicRoutes from './user-public';
+import userInvitationTypeRoutes from './user-invitation-types';
+import userCronRoutes from './user-cron';
 
 const router = Router();
 
@@ -24,6 +26,8 @@ router.get('/health', (req, res) => {
 router.use('/auth', userAuthRoutes);
 router.use('/invitations', userInvitationRoutes);
 router.use('/templates', userTemplateRoutes);
+router.use('/invitation-types', userInvitationTypeRoutes);
+router.use('/cron', userCronRoutes);
 router.use('/public', userPublicRoutes);
 
 export default router;
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { InvitationTypeController } from '../controllers/InvitationTypeController';
+import { validateParams } from '../middleware/validation';
+import { invitationTypeParamsSchema } from '../utils/validation';
+
+const router = Router();
+
+// Public form configuration routes (no auth required)
+router.get('/', InvitationTypeController.list);
+router.get('/:type/form', validateParams(invitationTypeParamsSchema), InvitationTypeController.getForm);
+
+export default router;
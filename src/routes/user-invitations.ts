@@ -1,6 +1,28 @@
 import { Router } from 'express';
-import { InvitationController } from '../controllers/InvitationControllerTest';
+import { InvitationController } from '../controllers/InvitationController';
+import { AnalyticsController } from '../controllers/AnalyticsController';
+import { ActivityController } from '../controllers/ActivityController';
 import { userAuth } from '../middleware/auth';
+import { validateBody, validateBodyByContentType, validateParams, validateQuery } from '../middleware/validation';
+import {
+  invitationParamsSchema,
+  createInvitationSchema,
+  updateInvitationSchema,
+  jsonPatchSchema,
+  publishInvitationSchema,
+  duplicateInvitationSchema,
+  invitationQuerySchema,
+  analyticsQuerySchema,
+  activityQuerySchema,
+  slugAvailabilityQuerySchema,
+  changeSlugSchema,
+  updateInvitationAccessSchema,
+  upgradeTemplateSchema,
+  templateCompatibilityQuerySchema
+} from '../utils/validation';
+import userGuestRoutes from './user-guests';
+import userMediaRoutes from './user-media';
+import userRevisionRoutes from './user-revisions';
 
 const router = Router();
 
@@ -8,16 +30,43 @@ const router = Router();
 router.use(userAuth);
 
 // Invitation CRUD operations
-router.post('/', InvitationController.create);
-// router.get('/stats', InvitationController.getStats);
-// router.get('/', InvitationController.list);
-// router.get('/:id', InvitationController.getById);
-// router.put('/:id', InvitationController.update);
-// router.delete('/:id', InvitationController.delete);
+router.post('/', validateBody(createInvitationSchema), InvitationController.create);
+router.get('/stats', InvitationController.getStats);
+router.get('/activity', validateQuery(activityQuerySchema), ActivityController.list);
+router.get('/slug-availability', validateQuery(slugAvailabilityQuerySchema), InvitationController.checkSlugAvailability);
+router.get('/', validateQuery(invitationQuerySchema), InvitationController.list);
+router.get('/:id', validateParams(invitationParamsSchema), InvitationController.getById);
+router.put('/:id', validateParams(invitationParamsSchema), validateBody(updateInvitationSchema), InvitationController.update);
+router.patch('/:id', validateParams(invitationParamsSchema), validateBodyByContentType({ 'application/json-patch+json': jsonPatchSchema }, updateInvitationSchema), InvitationController.patch);
+router.delete('/:id', validateParams(invitationParamsSchema), InvitationController.delete);
 
 // Status operations
-// router.post('/:id/publish', InvitationController.publish);
-// router.post('/:id/unpublish', InvitationController.unpublish);
-// router.post('/:id/duplicate', InvitationController.duplicate);
+router.get('/:id/readiness', validateParams(invitationParamsSchema), InvitationController.getReadiness);
+router.post('/:id/publish', validateParams(invitationParamsSchema), validateBody(publishInvitationSchema), InvitationController.publish);
+router.post('/:id/unpublish', validateParams(invitationParamsSchema), InvitationController.unpublish);
+router.post('/:id/duplicate', validateParams(invitationParamsSchema), validateBody(duplicateInvitationSchema), InvitationController.duplicate);
+
+// Vanity slug
+router.put('/:id/slug', validateParams(invitationParamsSchema), validateBody(changeSlugSchema), InvitationController.changeSlug);
+
+// Private invitations
+router.put('/:id/access', validateParams(invitationParamsSchema), validateBody(updateInvitationAccessSchema), InvitationController.updateAccess);
+
+// Template switching and version upgrades
+router.get('/:id/template-compatibility', validateParams(invitationParamsSchema), validateQuery(templateCompatibilityQuerySchema), InvitationController.checkTemplateCompatibility);
+router.get('/:id/template-upgrade', validateParams(invitationParamsSchema), InvitationController.previewTemplateUpgrade);
+router.post('/:id/template-upgrade', validateParams(invitationParamsSchema), validateBody(upgradeTemplateSchema), InvitationController.upgradeTemplate);
+
+// Analytics
+router.get('/:id/analytics', validateParams(invitationParamsSchema), validateQuery(analyticsQuerySchema), AnalyticsController.getInvitationAnalytics);
+
+// Guest list management
+router.use('/:id/guests', userGuestRoutes);
+
+// Media uploads
+router.use('/:id/media', userMediaRoutes);
+
+// Revision history
+router.use('/:id/revisions', userRevisionRoutes);
 
 export default router;
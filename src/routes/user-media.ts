@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { MediaController } from '../controllers/MediaController';
+import { uploadSingle } from '../middleware/upload';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation';
+import {
+  invitationParamsSchema,
+  mediaParamsSchema,
+  uploadMediaSchema,
+  mediaQuerySchema,
+  reorderMediaSchema,
+  updateMediaSchema
+} from '../utils/validation';
+
+// Mounted under /api/invitations/:id/media, so the invitation ID comes from the parent router
+const router = Router({ mergeParams: true });
+
+router.get('/', validateParams(invitationParamsSchema), validateQuery(mediaQuerySchema), MediaController.list);
+router.post('/', validateParams(invitationParamsSchema), uploadSingle('file'), validateBody(uploadMediaSchema), MediaController.upload);
+
+// Gallery ordering (before /:mediaId so "order" is not taken for an ID)
+router.put('/order', validateParams(invitationParamsSchema), validateBody(reorderMediaSchema), MediaController.reorder);
+
+// Media management
+router.put('/:mediaId', validateParams(mediaParamsSchema), validateBody(updateMediaSchema), MediaController.update);
+router.delete('/:mediaId', validateParams(mediaParamsSchema), MediaController.delete);
+router.post('/:mediaId/set-hero', validateParams(mediaParamsSchema), MediaController.setHero);
+router.post('/:mediaId/set-og-image', validateParams(mediaParamsSchema), MediaController.setOgImage);
+
+export default router;
@@ -1,4 +1,8 @@
 import { Router } from 'express';
+import { PublicInvitationController } from '../controllers/PublicInvitationController';
+import { validateBody } from '../middleware/validation';
+import { invitationAccess, invitationAccessLimiter, invitationRsvpLimiter, invitationEventLimiter } from '../middleware/auth';
+import { submitRsvpSchema, trackEventSchema, invitationAccessSchema } from '../utils/validation';
 
 const router = Router();
 
@@ -11,7 +15,16 @@ router.get('/health', (req, res) => {
   });
 });
 
-// Will add invitation public viewing here later
-// router.get('/invitations/:slug', InvitationController.getBySlug);
+// Invitation public viewing
+router.get('/invitations/:slug', invitationAccess, PublicInvitationController.getBySlug);
+
+// Password or guest token exchange for private invitations
+router.post('/invitations/:slug/access', invitationAccessLimiter, validateBody(invitationAccessSchema), PublicInvitationController.requestAccess);
+
+// Guest RSVP submission
+router.post('/invitations/:slug/rsvp', invitationRsvpLimiter, validateBody(submitRsvpSchema), invitationAccess, PublicInvitationController.submitRsvp);
+
+// Engagement analytics ingestion
+router.post('/invitations/:slug/events', invitationEventLimiter, validateBody(trackEventSchema), invitationAccess, PublicInvitationController.trackEvent);
 
 export default router;
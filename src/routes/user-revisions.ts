@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { RevisionController } from '../controllers/RevisionController';
+import { validateParams, validateQuery } from '../middleware/validation';
+import {
+  invitationParamsSchema,
+  revisionParamsSchema,
+  revisionQuerySchema,
+  revisionDiffQuerySchema
+} from '../utils/validation';
+
+// Mounted under /api/invitations/:id/revisions, so the invitation ID comes from the parent router
+const router = Router({ mergeParams: true });
+
+router.get('/', validateParams(invitationParamsSchema), validateQuery(revisionQuerySchema), RevisionController.list);
+
+// Before /:revision so "diff" is not taken for a revision number
+router.get('/diff', validateParams(invitationParamsSchema), validateQuery(revisionDiffQuerySchema), RevisionController.diff);
+
+router.get('/:revision', validateParams(revisionParamsSchema), RevisionController.getByNumber);
+router.post('/:revision/restore', validateParams(revisionParamsSchema), RevisionController.restore);
+
+export default router;
@@ -0,0 +1,86 @@
+import { supabase } from '../utils/supabase';
+import {
+  ActivityType,
+  ActivityFeedItem,
+  ActivityListResponse,
+  InvitationActivity
+} from '../types/invitation';
+
+export class ActivityService {
+  private static readonly TABLE_NAME = 'invitation_activity';
+
+  /**
+   * Record an activity for the invitation owner's feed
+   */
+  static async record(entry: {
+    userId: string;
+    invitationId: string | null;
+    type: ActivityType;
+    message: string;
+    metadata?: Record<string, any>;
+  }): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from(this.TABLE_NAME)
+        .insert({
+          user_id: entry.userId,
+          invitation_id: entry.invitationId,
+          activity_type: entry.type,
+          message: entry.message,
+          metadata: entry.metadata || null
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error recording activity:', error);
+      // Don't throw error for the activity feed
+    }
+  }
+
+  /**
+   * Get the latest activities of a user
+   */
+  static async getRecent(userId: string, limit: number = 10): Promise<ActivityFeedItem[]> {
+    const { activities } = await this.list(userId, { page: 1, limit });
+    return activities;
+  }
+
+  /**
+   * List a user's activities, newest first
+   */
+  static async list(userId: string, options: { page?: number; limit?: number } = {}): Promise<ActivityListResponse> {
+    try {
+      const { page = 1, limit = 20 } = options;
+      const offset = (page - 1) * limit;
+
+      const { data, error, count } = await supabase
+        .from(this.TABLE_NAME)
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) throw error;
+
+      return {
+        activities: (data || []).map(activity => this.toFeedItem(activity)),
+        total: count || 0,
+        page,
+        limit,
+        has_more: (count || 0) > offset + limit
+      };
+    } catch (error) {
+      console.error('Error listing activities:', error);
+      throw new Error('Failed to list activities');
+    }
+  }
+
+  private static toFeedItem(activity: InvitationActivity): ActivityFeedItem {
+    return {
+      type: activity.activity_type,
+      message: activity.message,
+      timestamp: activity.created_at,
+      invitation_id: activity.invitation_id
+    };
+  }
+}
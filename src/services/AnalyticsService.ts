@@ -0,0 +1,279 @@
+import crypto from 'crypto';
+import { supabase } from '../utils/supabase';
+import { config } from '../config';
+import { InvitationService } from './InvitationService';
+import {
+  TrackEventRequest,
+  AnalyticsEventType,
+  AnalyticsDateRange,
+  DeviceType,
+  GuestResponse,
+  InvitationAnalyticsResponse
+} from '../types/invitation';
+
+export interface EventRequestContext {
+  ip?: string
+  userAgent?: string
+  referrer?: string
+}
+
+type ViewEventRow = {
+  session_id: string | null
+  ip_hash: string | null
+  user_agent: string | null
+  referrer: string | null
+  created_at: string
+}
+
+export class AnalyticsService {
+  private static readonly TABLE_NAME = 'invitation_analytics';
+  private static readonly DEFAULT_RANGE_DAYS = 30;
+  private static readonly MAX_RANGE_DAYS = 366;
+  private static readonly PAGE_SIZE = 1000;
+
+  /**
+   * Record an engagement event for a published invitation (public access)
+   */
+  static async trackBySlug(slug: string, event: TrackEventRequest, context: EventRequestContext = {}): Promise<void> {
+    const invitation = await InvitationService.findPublishedBySlug(slug);
+    if (!invitation) throw new Error('Invitation not found');
+    if (InvitationService.isExpired(invitation)) throw new Error('Invitation expired');
+
+    await this.track(invitation.id, event, context);
+  }
+
+  /**
+   * Record an engagement event and update the invitation view counters
+   */
+  static async track(invitationId: string, event: TrackEventRequest, context: EventRequestContext = {}): Promise<void> {
+    try {
+      const { error } = await supabase
+        .rpc('record_invitation_event', {
+          inv_id: invitationId,
+          p_event_type: event.event_type,
+          p_event_data: event.event_data || null,
+          p_session_id: event.session_id || null,
+          p_user_agent: context.userAgent || null,
+          // The page referrer reported by the client beats the API request's own Referer header
+          p_referrer: event.referrer || context.referrer || null,
+          p_ip_hash: context.ip ? this.hashIp(context.ip) : null
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error tracking invitation event:', error);
+      throw new Error('Failed to track event');
+    }
+  }
+
+  /**
+   * Build the analytics dashboard of an invitation for a date range (inclusive, UTC days)
+   */
+  static async getInvitationAnalytics(
+    invitationId: string,
+    userId: string,
+    range: Partial<AnalyticsDateRange> = {}
+  ): Promise<InvitationAnalyticsResponse> {
+    const invitation = await InvitationService.getById(invitationId, userId);
+    if (!invitation) throw new Error('Invitation not found');
+
+    const resolvedRange = this.resolveRange(range);
+    const start = `${resolvedRange.from}T00:00:00.000Z`;
+    const endExclusive = this.addDays(resolvedRange.to, 1) + 'T00:00:00.000Z';
+
+    try {
+      const [views, funnelGuests] = await Promise.all([
+        this.fetchViewEvents(invitationId, start, endExclusive),
+        this.getGuestFunnel(invitationId, start, endExclusive)
+      ]);
+
+      // Daily buckets, pre-filled so days without traffic still show up
+      const daily = new Map<string, { views: number; visitors: Set<string> }>();
+      for (let day = resolvedRange.from; day <= resolvedRange.to; day = this.addDays(day, 1)) {
+        daily.set(day, { views: 0, visitors: new Set() });
+      }
+
+      const allVisitors = new Set<string>();
+      const referrers: Record<string, number> = {};
+      const devices: Record<string, number> = {};
+
+      views.forEach((view, index) => {
+        const visitor = this.visitorKey(view, index);
+        const bucket = daily.get(view.created_at.slice(0, 10));
+        if (bucket) {
+          bucket.views += 1;
+          bucket.visitors.add(visitor);
+        }
+        allVisitors.add(visitor);
+
+        const source = this.referrerSource(view.referrer);
+        referrers[source] = (referrers[source] || 0) + 1;
+
+        const device = this.parseDeviceType(view.user_agent);
+        devices[device] = (devices[device] || 0) + 1;
+      });
+
+      return {
+        range: resolvedRange,
+        totals: {
+          views: views.length,
+          unique_views: allVisitors.size
+        },
+        daily: Array.from(daily.entries()).map(([date, bucket]) => ({
+          date,
+          views: bucket.views,
+          unique_views: bucket.visitors.size
+        })),
+        referrers: Object.entries(referrers)
+          .map(([source, count]) => ({ source, count }))
+          .sort((a, b) => b.count - a.count),
+        devices: Object.entries(devices)
+          .map(([device, count]) => ({ device: device as DeviceType, count }))
+          .sort((a, b) => b.count - a.count),
+        funnel: {
+          viewed: allVisitors.size,
+          ...funnelGuests
+        }
+      };
+    } catch (error) {
+      console.error('Error building invitation analytics:', error);
+      throw new Error('Failed to get invitation analytics');
+    }
+  }
+
+  /**
+   * Load every view event in the range, page by page past the API row limit
+   */
+  private static async fetchViewEvents(invitationId: string, start: string, endExclusive: string): Promise<ViewEventRow[]> {
+    const rows: ViewEventRow[] = [];
+
+    for (let offset = 0; ; offset += this.PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(this.TABLE_NAME)
+        .select('session_id, ip_hash, user_agent, referrer, created_at')
+        .eq('invitation_id', invitationId)
+        .eq('event_type', AnalyticsEventType.VIEW)
+        .gte('created_at', start)
+        .lt('created_at', endExclusive)
+        .order('created_at', { ascending: true })
+        .range(offset, offset + this.PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      rows.push(...(data || []));
+      if (!data || data.length < this.PAGE_SIZE) break;
+    }
+
+    return rows;
+  }
+
+  /**
+   * Guest-side funnel steps: opened a personalized link, answered, and is attending
+   */
+  private static async getGuestFunnel(
+    invitationId: string,
+    start: string,
+    endExclusive: string
+  ): Promise<{ opened: number; responded: number; attending: number }> {
+    const [opened, responded, attending] = await Promise.all([
+      supabase
+        .from('invitation_guests')
+        .select('*', { count: 'exact', head: true })
+        .eq('invitation_id', invitationId)
+        .gte('invitation_opened_at', start)
+        .lt('invitation_opened_at', endExclusive),
+      supabase
+        .from('invitation_guests')
+        .select('*', { count: 'exact', head: true })
+        .eq('invitation_id', invitationId)
+        .neq('response', GuestResponse.PENDING)
+        .gte('response_submitted_at', start)
+        .lt('response_submitted_at', endExclusive),
+      supabase
+        .from('invitation_guests')
+        .select('*', { count: 'exact', head: true })
+        .eq('invitation_id', invitationId)
+        .eq('response', GuestResponse.ATTENDING)
+        .gte('response_submitted_at', start)
+        .lt('response_submitted_at', endExclusive)
+    ]);
+
+    const failed = [opened, responded, attending].find(result => result.error);
+    if (failed?.error) throw failed.error;
+
+    return {
+      opened: opened.count || 0,
+      responded: responded.count || 0,
+      attending: attending.count || 0
+    };
+  }
+
+  /**
+   * Default to the last 30 days and cap the span to keep queries bounded
+   */
+  private static resolveRange(range: Partial<AnalyticsDateRange>): AnalyticsDateRange {
+    const today = new Date().toISOString().slice(0, 10);
+    const to = range.to || today;
+    let from = range.from || this.addDays(to, -(this.DEFAULT_RANGE_DAYS - 1));
+
+    const earliest = this.addDays(to, -(this.MAX_RANGE_DAYS - 1));
+    if (from < earliest) from = earliest;
+
+    return { from, to };
+  }
+
+  /**
+   * Shift a YYYY-MM-DD date by a number of UTC days
+   */
+  private static addDays(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00.000Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Identify a visitor by session, then by hashed IP; anonymous events count individually
+   */
+  private static visitorKey(view: ViewEventRow, index: number): string {
+    if (view.session_id) return `s:${view.session_id}`;
+    if (view.ip_hash) return `ip:${view.ip_hash}`;
+    return `event:${index}`;
+  }
+
+  /**
+   * Reduce a referrer URL to its host, or "direct" when there is none
+   */
+  private static referrerSource(referrer: string | null): string {
+    if (!referrer) return 'direct';
+
+    try {
+      return new URL(referrer).hostname.replace(/^www\./, '') || 'direct';
+    } catch {
+      return referrer;
+    }
+  }
+
+  /**
+   * Coarse device class from a user agent string
+   */
+  private static parseDeviceType(userAgent: string | null): DeviceType {
+    if (!userAgent) return 'unknown';
+
+    // Link previews from chat apps and crawlers are not real visitors
+    if (/bot|crawl|spider|slurp|facebookexternalhit|whatsapp|telegrambot|preview/i.test(userAgent)) return 'bot';
+    if (/ipad|tablet|kindle|silk|playbook|android(?!.*mobile)/i.test(userAgent)) return 'tablet';
+    if (/mobi|iphone|ipod|android|blackberry|opera mini|iemobile/i.test(userAgent)) return 'mobile';
+
+    return 'desktop';
+  }
+
+  /**
+   * Salted SHA-256 of the visitor IP so repeat visitors can be told apart without storing the address
+   */
+  private static hashIp(ip: string): string {
+    return crypto
+      .createHash('sha256')
+      .update(`${config.analytics.ipHashSalt}:${ip}`)
+      .digest('hex');
+  }
+}
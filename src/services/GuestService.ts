@@ -0,0 +1,378 @@
+import crypto from 'crypto';
+import { supabase } from '../utils/supabase';
+import { InvitationService } from './InvitationService';
+import { ActivityService } from './ActivityService';
+import { containsPattern } from '../utils/helpers';
+import {
+  InvitationGuest,
+  GuestResponse,
+  ActivityType,
+  InvitationAccessMode,
+  CreateGuestRequest,
+  UpdateGuestRequest,
+  GuestListFilters,
+  GuestListResponse,
+  SubmitRsvpRequest
+} from '../types/invitation';
+
+export class GuestService {
+  private static readonly TABLE_NAME = 'invitation_guests';
+
+  /**
+   * List guests of an invitation with pagination, response filter and search
+   */
+  static async list(invitationId: string, userId: string, filters: GuestListFilters = {}): Promise<GuestListResponse> {
+    await this.assertOwnership(invitationId, userId);
+
+    try {
+      const { page = 1, limit = 20, response, search, opened } = filters;
+      const offset = (page - 1) * limit;
+
+      let query = supabase
+        .from(this.TABLE_NAME)
+        .select('*', { count: 'exact' })
+        .eq('invitation_id', invitationId)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (response) query = query.eq('response', response);
+      if (opened === true) query = query.not('invitation_opened_at', 'is', null);
+      if (opened === false) query = query.is('invitation_opened_at', null);
+      if (search) {
+        const pattern = containsPattern(search);
+        query = query.or(`name.ilike.${pattern},phone.ilike.${pattern}`);
+      }
+
+      const { data, error, count } = await query;
+
+      if (error) throw error;
+
+      return {
+        guests: data || [],
+        total: count || 0,
+        page,
+        limit,
+        has_more: (count || 0) > offset + limit
+      };
+    } catch (error) {
+      console.error('Error listing guests:', error);
+      throw new Error('Failed to list guests');
+    }
+  }
+
+  /**
+   * Get a single guest of an invitation
+   */
+  static async getById(invitationId: string, guestId: string, userId: string): Promise<InvitationGuest | null> {
+    await this.assertOwnership(invitationId, userId);
+
+    try {
+      const { data, error } = await supabase
+        .from(this.TABLE_NAME)
+        .select('*')
+        .eq('id', guestId)
+        .eq('invitation_id', invitationId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') return null; // Not found
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error fetching guest:', error);
+      throw new Error('Failed to fetch guest');
+    }
+  }
+
+  /**
+   * Add a guest to an invitation
+   */
+  static async create(invitationId: string, userId: string, data: CreateGuestRequest): Promise<InvitationGuest> {
+    await this.assertOwnership(invitationId, userId);
+
+    try {
+      const response = data.response || GuestResponse.PENDING;
+
+      const guest = {
+        invitation_id: invitationId,
+        name: data.name,
+        email: data.email || null,
+        phone: data.phone || null,
+        response,
+        response_data: data.response_data || null,
+        plus_ones_count: data.plus_ones_count || 0,
+        plus_ones_details: data.plus_ones_details || null,
+        response_submitted_at: response === GuestResponse.PENDING ? null : new Date().toISOString(),
+        email_notifications: data.email_notifications ?? true,
+        sms_notifications: data.sms_notifications ?? false,
+        // Guests the host adds are approved unless the host says otherwise
+        is_approved: data.is_approved ?? true
+      };
+
+      const { data: result, error } = await supabase
+        .from(this.TABLE_NAME)
+        .insert(guest)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await this.refreshCounters(invitationId);
+      return result;
+    } catch (error) {
+      console.error('Error creating guest:', error);
+      throw new Error('Failed to create guest');
+    }
+  }
+
+  /**
+   * Update a guest of an invitation
+   */
+  static async update(
+    invitationId: string,
+    guestId: string,
+    userId: string,
+    data: UpdateGuestRequest
+  ): Promise<InvitationGuest> {
+    const existing = await this.getById(invitationId, guestId, userId);
+    if (!existing) throw new Error('Guest not found');
+
+    try {
+      const updateData: Partial<InvitationGuest> = {
+        ...data,
+        updated_at: new Date().toISOString()
+      };
+
+      // Stamp the response time when the host records an answer on the guest's behalf
+      if (data.response && data.response !== existing.response) {
+        updateData.response_submitted_at = data.response === GuestResponse.PENDING
+          ? null
+          : new Date().toISOString();
+      }
+
+      const { data: result, error } = await supabase
+        .from(this.TABLE_NAME)
+        .update(updateData)
+        .eq('id', guestId)
+        .eq('invitation_id', invitationId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await this.refreshCounters(invitationId);
+      return result;
+    } catch (error) {
+      console.error('Error updating guest:', error);
+      throw new Error('Failed to update guest');
+    }
+  }
+
+  /**
+   * Remove a guest from an invitation
+   */
+  static async delete(invitationId: string, guestId: string, userId: string): Promise<void> {
+    const existing = await this.getById(invitationId, guestId, userId);
+    if (!existing) throw new Error('Guest not found');
+
+    try {
+      const { error } = await supabase
+        .from(this.TABLE_NAME)
+        .delete()
+        .eq('id', guestId)
+        .eq('invitation_id', invitationId);
+
+      if (error) throw error;
+
+      await this.refreshCounters(invitationId);
+    } catch (error) {
+      console.error('Error deleting guest:', error);
+      throw new Error('Failed to delete guest');
+    }
+  }
+
+  /**
+   * Record a guest's own RSVP on a published invitation (public access)
+   */
+  static async submitRsvp(slug: string, data: SubmitRsvpRequest): Promise<InvitationGuest> {
+    const invitation = await InvitationService.findPublishedBySlug(slug);
+    if (!invitation) throw new Error('Invitation not found');
+    if (InvitationService.isExpired(invitation)) throw new Error('Invitation expired');
+
+    if (!invitation.rsvp_enabled) {
+      throw new Error('RSVP is not enabled for this invitation');
+    }
+
+    if (invitation.rsvp_deadline && new Date(invitation.rsvp_deadline).getTime() < Date.now()) {
+      throw new Error('RSVP deadline has passed');
+    }
+
+    // The access cookie only lets a listed guest in; answering still takes their own link
+    if (invitation.access_mode === InvitationAccessMode.GUEST_LIST && !data.guest_token) {
+      throw new Error('This invitation is only open to listed guests');
+    }
+
+    // A personalized link answers for that exact guest instead of matching by contact details
+    let guestId: string | null = null;
+    if (data.guest_token) {
+      const tokenGuest = await this.findByToken(invitation.id, data.guest_token);
+      if (!tokenGuest) throw new Error('Invalid guest token');
+      guestId = tokenGuest.id;
+    }
+
+    try {
+      // Guest upsert and counter refresh run in a single database transaction
+      const { data: guest, error } = await supabase
+        .rpc('submit_invitation_rsvp', {
+          p_invitation_id: invitation.id,
+          p_guest_id: guestId,
+          p_name: data.name || null,
+          p_email: data.email || null,
+          p_phone: data.phone || null,
+          p_response: data.response,
+          p_response_data: data.response_data || null,
+          p_plus_ones_count: data.response === GuestResponse.ATTENDING ? data.plus_ones_count || 0 : 0,
+          p_plus_ones_details: data.response === GuestResponse.ATTENDING ? data.plus_ones_details || null : null,
+          p_is_approved: !invitation.require_approval
+        });
+
+      if (error) {
+        // The email or phone belongs to a guest who must answer through their personalized link
+        if (error.code === '23505') throw new Error('Guest is already on the list');
+        throw error;
+      }
+
+      await ActivityService.record({
+        userId: invitation.user_id,
+        invitationId: invitation.id,
+        type: guest.response === GuestResponse.NOT_ATTENDING ? ActivityType.GUEST_DECLINED : ActivityType.GUEST_RSVP,
+        message: this.describeRsvp(guest, invitation.title),
+        metadata: { guest_id: guest.id, response: guest.response }
+      });
+
+      return guest;
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Guest is already on the list') throw error;
+      console.error('Error submitting RSVP:', error);
+      throw new Error('Failed to submit RSVP');
+    }
+  }
+
+  /**
+   * Resolve a personalized link token and stamp the first time the guest opened the invitation
+   */
+  static async openByToken(invitationId: string, token: string): Promise<InvitationGuest | null> {
+    const guest = await this.findByToken(invitationId, token);
+    if (!guest || guest.invitation_opened_at) return guest;
+
+    try {
+      const openedAt = new Date().toISOString();
+
+      // Only the first open is recorded, even when two requests race
+      const { error } = await supabase
+        .from(this.TABLE_NAME)
+        .update({ invitation_opened_at: openedAt })
+        .eq('id', guest.id)
+        .is('invitation_opened_at', null);
+
+      if (error) throw error;
+      return { ...guest, invitation_opened_at: openedAt };
+    } catch (error) {
+      console.error('Error recording invitation open:', error);
+      // Don't block the guest from viewing the invitation
+      return guest;
+    }
+  }
+
+  /**
+   * Issue a new personalized link token, invalidating the old link
+   */
+  static async regenerateToken(invitationId: string, guestId: string, userId: string): Promise<InvitationGuest> {
+    const existing = await this.getById(invitationId, guestId, userId);
+    if (!existing) throw new Error('Guest not found');
+
+    try {
+      const { data: result, error } = await supabase
+        .from(this.TABLE_NAME)
+        .update({
+          access_token: crypto.randomBytes(24).toString('hex'),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', guestId)
+        .eq('invitation_id', invitationId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return result;
+    } catch (error) {
+      console.error('Error regenerating guest token:', error);
+      throw new Error('Failed to regenerate guest token');
+    }
+  }
+
+  /**
+   * Feed message for a guest's RSVP
+   */
+  private static describeRsvp(guest: InvitationGuest, invitationTitle: string): string {
+    switch (guest.response) {
+      case GuestResponse.NOT_ATTENDING:
+        return `${guest.name} declined "${invitationTitle}"`;
+      case GuestResponse.MAYBE:
+        return `${guest.name} might attend "${invitationTitle}"`;
+      default:
+        return guest.plus_ones_count > 0
+          ? `${guest.name} is attending "${invitationTitle}" with ${guest.plus_ones_count} guest(s)`
+          : `${guest.name} is attending "${invitationTitle}"`;
+    }
+  }
+
+  /**
+   * Find a guest of an invitation by personalized link token
+   */
+  static async findByToken(invitationId: string, token: string): Promise<InvitationGuest | null> {
+    try {
+      const { data, error } = await supabase
+        .from(this.TABLE_NAME)
+        .select('*')
+        .eq('invitation_id', invitationId)
+        .eq('access_token', token)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') return null; // Not found
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error fetching guest by token:', error);
+      throw new Error('Failed to fetch guest');
+    }
+  }
+
+  /**
+   * Recalculate the invitation's rsvp_count and confirmed_count from its guests
+   */
+  private static async refreshCounters(invitationId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .rpc('refresh_invitation_rsvp_counts', { inv_id: invitationId });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error refreshing RSVP counters:', error);
+      // Don't fail guest changes because of counters
+    }
+  }
+
+  /**
+   * Ensure the invitation exists and belongs to the user
+   */
+  private static async assertOwnership(invitationId: string, userId: string): Promise<void> {
+    const invitation = await InvitationService.getById(invitationId, userId);
+    if (!invitation) throw new Error('Invitation not found');
+  }
+}
@@ -0,0 +1,160 @@
+import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
+import { supabase } from '../utils/supabase';
+import { config } from '../config';
+import { InvitationService } from './InvitationService';
+import { GuestService } from './GuestService';
+import {
+  Invitation,
+  InvitationAccessMode,
+  InvitationAccessRequest,
+  UpdateInvitationAccessRequest
+} from '../types/invitation';
+
+interface AccessTokenPayload {
+  invitation_id: string
+  version: string | null
+}
+
+export class InvitationAccessService {
+  private static readonly TABLE_NAME = 'invitation_access_passwords';
+  private static readonly SALT_ROUNDS = 12;
+  private static readonly TOKEN_AUDIENCE = 'invitation-access';
+
+  /**
+   * Name of the cookie holding the access token of one invitation
+   */
+  static cookieName(invitationId: string): string {
+    return `invitation_access_${invitationId}`;
+  }
+
+  /**
+   * Change who can open an invitation.
+   * Any change invalidates access cookies issued for the previous settings.
+   */
+  static async updateSettings(id: string, userId: string, data: UpdateInvitationAccessRequest): Promise<Invitation> {
+    const invitation = await InvitationService.getById(id, userId);
+    if (!invitation) throw new Error('Invitation not found');
+
+    if (data.access_mode === InvitationAccessMode.PASSWORD && !data.password && !(await this.getPasswordHash(id))) {
+      throw new Error('Password is required for password protected invitations');
+    }
+
+    try {
+      if (data.access_mode !== InvitationAccessMode.PASSWORD) {
+        // Don't keep a password that no longer protects anything
+        const { error } = await supabase
+          .from(this.TABLE_NAME)
+          .delete()
+          .eq('invitation_id', id);
+
+        if (error) throw error;
+      } else if (data.password) {
+        const { error } = await supabase
+          .from(this.TABLE_NAME)
+          .upsert({
+            invitation_id: id,
+            password_hash: await bcrypt.hash(data.password, this.SALT_ROUNDS),
+            updated_at: new Date().toISOString()
+          });
+
+        if (error) throw error;
+      }
+
+      const { data: result, error } = await supabase
+        .from('invitations')
+        .update({
+          access_mode: data.access_mode,
+          access_updated_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return result;
+    } catch (error) {
+      console.error('Error updating invitation access:', error);
+      throw new Error('Failed to update invitation access');
+    }
+  }
+
+  /**
+   * Exchange a password or guest token for an access token (public access)
+   */
+  static async grant(slug: string, credentials: InvitationAccessRequest): Promise<{ invitation: Invitation; token: string }> {
+    const invitation = await InvitationService.findPublishedBySlug(slug);
+    if (!invitation) throw new Error('Invitation not found');
+    if (InvitationService.isExpired(invitation)) throw new Error('Invitation expired');
+
+    if (credentials.guest_token) {
+      const guest = await GuestService.findByToken(invitation.id, credentials.guest_token);
+      if (!guest) throw new Error('Invalid guest token');
+    } else if (invitation.access_mode === InvitationAccessMode.PASSWORD && credentials.password) {
+      const passwordHash = await this.getPasswordHash(invitation.id);
+      if (!passwordHash || !(await bcrypt.compare(credentials.password, passwordHash))) {
+        throw new Error('Incorrect password');
+      }
+    } else if (invitation.access_mode !== InvitationAccessMode.PUBLIC) {
+      throw new Error(invitation.access_mode === InvitationAccessMode.GUEST_LIST
+        ? 'This invitation is only open to listed guests'
+        : 'Password is required');
+    }
+
+    const payload: AccessTokenPayload = {
+      invitation_id: invitation.id,
+      version: invitation.access_updated_at
+    };
+
+    const token = jwt.sign(payload, config.invitationAccess.secret, {
+      audience: this.TOKEN_AUDIENCE,
+      expiresIn: Math.floor(config.invitationAccess.cookieTtlMs / 1000)
+    });
+
+    return { invitation, token };
+  }
+
+  /**
+   * Whether a visitor may open an invitation: public invitations are open to anyone,
+   * private ones need a guest's personalized link token or an access token for the current settings
+   */
+  static async hasAccess(invitation: Invitation, credentials: { guestToken?: string; accessToken?: string }): Promise<boolean> {
+    if (invitation.access_mode === InvitationAccessMode.PUBLIC) return true;
+
+    if (credentials.accessToken && this.verifyToken(invitation, credentials.accessToken)) return true;
+
+    if (credentials.guestToken) {
+      return !!(await GuestService.findByToken(invitation.id, credentials.guestToken));
+    }
+
+    return false;
+  }
+
+  private static verifyToken(invitation: Invitation, token: string): boolean {
+    try {
+      const payload = jwt.verify(token, config.invitationAccess.secret, { audience: this.TOKEN_AUDIENCE }) as AccessTokenPayload;
+      return payload.invitation_id === invitation.id && payload.version === invitation.access_updated_at;
+    } catch {
+      // Expired or tampered tokens just don't grant access
+      return false;
+    }
+  }
+
+  private static async getPasswordHash(invitationId: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from(this.TABLE_NAME)
+      .select('password_hash')
+      .eq('invitation_id', invitationId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null; // Not found
+      console.error('Error getting invitation password:', error);
+      throw new Error('Failed to check invitation password');
+    }
+
+    return data.password_hash;
+  }
+}
@@ -1,4 +1,12 @@
 import { supabase } from '../utils/supabase';
+import { config } from '../config';
+import { ActivityService } from './ActivityService';
+import { ReadinessService, InvitationNotReadyError } from './ReadinessService';
+import { RevisionService } from './RevisionService';
+import { SlugService } from './SlugService';
+import { TemplateService } from './TemplateService';
+import { validateInvitationData } from '../utils/validation';
+import { generateSlug, containsPattern } from '../utils/helpers';
 import { 
   Invitation, 
   CreateInvitationRequest, 
@@ -8,19 +16,43 @@ import {
   InvitationType,
   InvitationStatus,
   InvitationListResponse,
-  InvitationStatsResponse
+  InvitationStatsResponse,
+  InvitationReadiness,
+  Template,
+  TemplateCompatibilityReport,
+  ActivityType
 } from '../types/invitation';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Thrown by update when the invitation changed since the version the client edited
+ */
+export class InvitationConflictError extends Error {
+  constructor(public readonly current: Invitation) {
+    super('Invitation was modified by someone else');
+    this.name = 'InvitationConflictError';
+  }
+}
+
 export class InvitationService {
   private static readonly TABLE_NAME = 'invitations';
+  private static readonly RECENT_ACTIVITY_LIMIT = 10;
 
   /**
-   * Create a new invitation
+   * Create a new invitation.
+   * keepInactiveTemplate lets a copy keep a template that has been deactivated since the original picked it.
    */
-  static async create(userId: string, data: CreateInvitationRequest): Promise<Invitation> {
+  static async create(userId: string, data: CreateInvitationRequest, keepInactiveTemplate: boolean = false): Promise<Invitation> {
+    // A requested vanity slug must be usable as is
+    const customSlug = data.slug ? await SlugService.checkAvailability(data.slug) : null;
+    if (customSlug && !customSlug.available) throw new Error(customSlug.message || 'Slug is not available');
+
+    if (data.template_id) await this.getUsableTemplate(data.template_id, data.type, userId, false, keepInactiveTemplate);
+
     try {
-      // Generate slug based on invitation type and form data
-      const slug = await this.generateSlug(data.type, data.form_data);
+      // Otherwise generate slug based on invitation type and form data
+      const slug = customSlug ? customSlug.slug : await this.generateSlug(data.type, data.form_data);
       
       // Extract common fields from form data for easier querying
       const eventDate = this.extractEventDate(data.type, data.form_data);
@@ -55,8 +87,20 @@ export class InvitationService {
         .single();
 
       if (error) throw error;
+
+      if (result.template_id) await TemplateService.incrementUsage(result.template_id);
+
+      await ActivityService.record({
+        userId,
+        invitationId: result.id,
+        type: ActivityType.INVITATION_CREATED,
+        message: `You created "${result.title}"`
+      });
+
       return result;
     } catch (error) {
+      // The custom slug was claimed since the availability check
+      if (customSlug && (error as { code?: string }).code === '23505') throw new Error('Slug is already taken');
       console.error('Error creating invitation:', error);
       throw new Error('Failed to create invitation');
     }
@@ -92,9 +136,25 @@ export class InvitationService {
   }
 
   /**
-   * Get invitation by slug (for public access)
+   * Get invitation by slug (for public access).
+   * Views are recorded by the client through the analytics events endpoint so they carry a session.
    */
   static async getBySlug(slug: string): Promise<Invitation | null> {
+    const invitation = await this.findPublishedBySlug(slug);
+    if (!invitation) return null;
+
+    if (this.isExpired(invitation)) {
+      await this.markExpired(invitation);
+      throw new Error('Invitation expired');
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Find a published invitation by slug without recording a view
+   */
+  static async findPublishedBySlug(slug: string): Promise<Invitation | null> {
     try {
       const { data, error } = await supabase
         .from(this.TABLE_NAME)
@@ -108,9 +168,6 @@ export class InvitationService {
         throw error;
       }
 
-      // Track view
-      await this.trackView(data.id);
-
       return data;
     } catch (error) {
       console.error('Error fetching invitation by slug:', error);
@@ -119,24 +176,93 @@ export class InvitationService {
   }
 
   /**
-   * Update invitation
+   * Check whether a published invitation has passed its expiry date
+   */
+  static isExpired(invitation: Invitation): boolean {
+    if (invitation.status === InvitationStatus.EXPIRED) return true;
+    if (invitation.expires_at) return new Date(invitation.expires_at).getTime() <= Date.now();
+
+    // Without an explicit expiry, invitations close a while after the event
+    return !!invitation.event_date
+      && new Date(invitation.event_date).getTime() + config.scheduler.expireAfterEventDays * DAY_MS <= Date.now();
+  }
+
+  /**
+   * Flip an invitation to expired status; returns whether it was changed
+   */
+  static async markExpired(invitation: Invitation): Promise<boolean> {
+    if (invitation.status === InvitationStatus.EXPIRED) return false;
+
+    try {
+      const { error } = await supabase
+        .from(this.TABLE_NAME)
+        .update({
+          status: InvitationStatus.EXPIRED,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', invitation.id);
+
+      if (error) throw error;
+
+      await ActivityService.record({
+        userId: invitation.user_id,
+        invitationId: invitation.id,
+        type: ActivityType.INVITATION_EXPIRED,
+        message: `"${invitation.title}" has expired`
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error marking invitation as expired:', error);
+      // The caller still treats the invitation as expired
+      return false;
+    }
+  }
+
+  /**
+   * Update invitation.
+   * form_data is shallow-merged into the stored data unless replaceFormData is set (PATCH computes the full document).
+   * With expected_version, the update only applies if nobody else changed the content in the meantime.
    */
-  static async update(id: string, userId: string, data: UpdateInvitationRequest): Promise<Invitation> {
+  static async update(id: string, userId: string, data: UpdateInvitationRequest, replaceFormData: boolean = false): Promise<Invitation> {
+    const changesContent = !!(data.title || data.form_data || data.template_customization);
+    const existing = changesContent || data.template_id || data.expected_version !== undefined ? await this.getById(id, userId) : null;
+    if (changesContent && !existing) throw new Error('Invitation not found');
+
+    if (data.expected_version !== undefined) {
+      if (!existing) throw new Error('Invitation not found');
+      if (existing.content_version !== data.expected_version) throw new InvitationConflictError(existing);
+    }
+
+    let newTemplate: Template | null = null;
+    if (data.template_id) {
+      if (!existing) throw new Error('Invitation not found');
+      if (data.template_id !== existing.template_id) {
+        newTemplate = await this.getUsableTemplate(data.template_id, existing.type, userId, existing.is_published);
+      }
+    }
+
     try {
       const updateData: any = {
         updated_at: new Date().toISOString()
       };
 
       if (data.title) updateData.title = data.title;
-      if (data.status) updateData.status = data.status;
       if (data.template_customization) updateData.template_customization = data.template_customization;
 
+      if (newTemplate && existing) {
+        updateData.template_id = newTemplate.id;
+        // Published invitations pin the new template's latest version; drafts follow the latest
+        updateData.template_version = existing.is_published ? newTemplate.current_version : null;
+      }
+
       // If form_data is being updated, merge with existing data and update extracted fields
       if (data.form_data) {
-        const existing = await this.getById(id, userId);
         if (!existing) throw new Error('Invitation not found');
 
-        const mergedFormData = { ...existing.form_data, ...data.form_data };
+        const mergedFormData = replaceFormData
+          ? data.form_data as InvitationFormData
+          : { ...existing.form_data, ...data.form_data };
         updateData.form_data = mergedFormData;
 
         // Update extracted fields
@@ -145,31 +271,173 @@ export class InvitationService {
         updateData.venue_address = this.extractVenueAddress(existing.type, mergedFormData);
       }
 
-      const { data: result, error } = await supabase
+      let query = supabase
         .from(this.TABLE_NAME)
         .update(updateData)
         .eq('id', id)
-        .eq('user_id', userId)
+        .eq('user_id', userId);
+
+      // Guards against an edit landing between the version check above and this update
+      if (data.expected_version !== undefined) {
+        query = query.eq('content_version', data.expected_version);
+      }
+
+      const { data: result, error } = await query
         .select()
         .single();
 
-      if (error) throw error;
+      if (error) {
+        if (error.code === 'PGRST116') {
+          const current = data.expected_version !== undefined ? await this.getById(id, userId) : null;
+          if (current) throw new InvitationConflictError(current);
+          throw new Error('Invitation not found');
+        }
+        throw error;
+      }
+
+      // Keep the replaced content so the edit can be undone; only edits that were applied get a revision
+      if (changesContent && existing) await this.recordRevision(id, userId, 'update', existing);
+
+      if (newTemplate) {
+        await TemplateService.incrementUsage(newTemplate.id);
+        if (existing?.template_id) await TemplateService.decrementUsage(existing.template_id);
+      }
+
       return result;
     } catch (error) {
+      if (error instanceof InvitationConflictError) throw error;
+      if (error instanceof Error && error.message === 'Invitation not found') throw error;
       console.error('Error updating invitation:', error);
       throw new Error('Failed to update invitation');
     }
   }
 
+  /**
+   * Check which fields of an invitation a template would display before switching to it
+   */
+  static async checkTemplateCompatibility(id: string, userId: string, templateId: string): Promise<TemplateCompatibilityReport> {
+    const invitation = await this.getById(id, userId);
+    if (!invitation) throw new Error('Invitation not found');
+
+    const template = await TemplateService.getById(templateId);
+    if (!template) throw new Error('Template not found');
+
+    return TemplateService.checkCompatibility(template, invitation.type, invitation.form_data);
+  }
+
+  /**
+   * A template an invitation can use: active, made for its type and, once published, paid for if premium
+   */
+  private static async getUsableTemplate(
+    templateId: string,
+    type: InvitationType,
+    userId: string,
+    published: boolean,
+    allowInactive: boolean = false
+  ): Promise<Template> {
+    const template = allowInactive
+      ? await TemplateService.getByIdIncludingInactive(templateId)
+      : await TemplateService.getById(templateId);
+    if (!template) throw new Error('Template not found');
+    if (template.category !== type) throw new Error('Template category does not match invitation type');
+
+    // Drafts are checked for payment when they are published
+    if (published && template.is_premium && !(await ReadinessService.hasPurchasedTemplate(userId, template.id))) {
+      throw new Error('Premium template has not been paid for');
+    }
+
+    return template;
+  }
+
+  /**
+   * Record the content an applied change replaced. The change is already saved, so a failure is only logged.
+   */
+  private static async recordRevision(
+    id: string,
+    userId: string,
+    source: 'update' | 'restore',
+    previous: Invitation
+  ): Promise<void> {
+    try {
+      await RevisionService.snapshot(id, userId, source, previous);
+    } catch (error) {
+      console.error('Error keeping invitation revision:', error);
+    }
+  }
+
+  /**
+   * Replace the content of an invitation with a revision; the replaced content is kept as a new revision
+   */
+  static async restoreRevision(id: string, userId: string, revisionNumber: number): Promise<Invitation> {
+    const current = await this.getById(id, userId);
+    if (!current) throw new Error('Invitation not found');
+
+    const revision = await RevisionService.getByNumber(id, revisionNumber, userId);
+
+    // A live invitation must stay complete
+    if (current.is_published && !validateInvitationData(current.type, revision.form_data, 'publish', current.form_data).isValid) {
+      throw new Error('Revision is incomplete for a published invitation');
+    }
+
+    try {
+      const { data: result, error } = await supabase
+        .from(this.TABLE_NAME)
+        .update({
+          title: revision.title,
+          form_data: revision.form_data,
+          template_customization: revision.template_customization,
+          event_date: this.extractEventDate(current.type, revision.form_data),
+          venue_name: this.extractVenueName(current.type, revision.form_data),
+          venue_address: this.extractVenueAddress(current.type, revision.form_data),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') throw new Error('Invitation not found');
+        throw error;
+      }
+
+      await this.recordRevision(id, userId, 'restore', current);
+
+      return result;
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Invitation not found') throw error;
+      console.error('Error restoring invitation revision:', error);
+      throw new Error('Failed to restore invitation revision');
+    }
+  }
+
   /**
    * Publish invitation
    */
   static async publish(id: string, userId: string, data: PublishInvitationRequest = {}): Promise<Invitation> {
+    const current = await this.getById(id, userId);
+    if (!current) throw new Error('Invitation not found');
+
+    // Guests only ever see complete invitations
+    const readiness = await ReadinessService.check(current);
+    if (!readiness.ready) throw new InvitationNotReadyError(readiness);
+
+    if (data.publish_at && new Date(data.publish_at).getTime() > Date.now()) {
+      return this.schedulePublish(current, data);
+    }
+
     try {
+      // Guests keep seeing the template as it was when the invitation went live, until the owner upgrades
+      const template = current.template_id && current.template_version === null
+        ? await TemplateService.getByIdIncludingInactive(current.template_id)
+        : null;
+
       const updateData = {
+        ...(template && { template_version: template.current_version }),
         status: InvitationStatus.PUBLISHED,
         is_published: true,
         published_at: new Date().toISOString(),
+        publish_at: null,
         expires_at: data.expires_at || null,
         meta_title: data.meta_title || null,
         meta_description: data.meta_description || null,
@@ -184,14 +452,92 @@ export class InvitationService {
         .select()
         .single();
 
-      if (error) throw error;
+      if (error) {
+        if (error.code === 'PGRST116') throw new Error('Invitation not found');
+        throw error;
+      }
+
+      await ActivityService.record({
+        userId,
+        invitationId: result.id,
+        type: ActivityType.INVITATION_PUBLISHED,
+        message: `You published "${result.title}"`
+      });
+
       return result;
     } catch (error) {
+      if (error instanceof Error && error.message === 'Invitation not found') throw error;
       console.error('Error publishing invitation:', error);
       throw new Error('Failed to publish invitation');
     }
   }
 
+  /**
+   * Store publish options for the scheduler; the invitation stays a draft until publish_at
+   */
+  private static async schedulePublish(invitation: Invitation, data: PublishInvitationRequest): Promise<Invitation> {
+    try {
+      const { data: result, error } = await supabase
+        .from(this.TABLE_NAME)
+        .update({
+          publish_at: data.publish_at,
+          expires_at: data.expires_at || null,
+          meta_title: data.meta_title || null,
+          meta_description: data.meta_description || null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', invitation.id)
+        .eq('user_id', invitation.user_id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await ActivityService.record({
+        userId: invitation.user_id,
+        invitationId: invitation.id,
+        type: ActivityType.INVITATION_SCHEDULED,
+        message: `"${invitation.title}" is scheduled to publish`,
+        metadata: { publish_at: data.publish_at }
+      });
+
+      return result;
+    } catch (error) {
+      console.error('Error scheduling invitation publish:', error);
+      throw new Error('Failed to schedule invitation publish');
+    }
+  }
+
+  /**
+   * Drop a pending scheduled publish
+   */
+  static async cancelScheduledPublish(id: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from(this.TABLE_NAME)
+        .update({
+          publish_at: null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error cancelling scheduled publish:', error);
+      throw new Error('Failed to cancel scheduled publish');
+    }
+  }
+
+  /**
+   * Get the publish checklist of an invitation
+   */
+  static async getReadiness(id: string, userId: string): Promise<InvitationReadiness> {
+    const invitation = await this.getById(id, userId);
+    if (!invitation) throw new Error('Invitation not found');
+
+    return ReadinessService.check(invitation);
+  }
+
   /**
    * Unpublish invitation
    */
@@ -201,6 +547,7 @@ export class InvitationService {
         status: InvitationStatus.DRAFT,
         is_published: false,
         published_at: null,
+        publish_at: null,
         updated_at: new Date().toISOString()
       };
 
@@ -212,9 +559,13 @@ export class InvitationService {
         .select()
         .single();
 
-      if (error) throw error;
+      if (error) {
+        if (error.code === 'PGRST116') throw new Error('Invitation not found');
+        throw error;
+      }
       return result;
     } catch (error) {
+      if (error instanceof Error && error.message === 'Invitation not found') throw error;
       console.error('Error unpublishing invitation:', error);
       throw new Error('Failed to unpublish invitation');
     }
@@ -225,13 +576,18 @@ export class InvitationService {
    */
   static async delete(id: string, userId: string): Promise<void> {
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from(this.TABLE_NAME)
         .delete()
         .eq('id', id)
-        .eq('user_id', userId);
+        .eq('user_id', userId)
+        .select('template_id');
 
       if (error) throw error;
+
+      for (const deleted of data || []) {
+        if (deleted.template_id) await TemplateService.decrementUsage(deleted.template_id);
+      }
     } catch (error) {
       console.error('Error deleting invitation:', error);
       throw new Error('Failed to delete invitation');
@@ -265,7 +621,8 @@ export class InvitationService {
       if (type) query = query.eq('type', type);
       if (status) query = query.eq('status', status);
       if (search) {
-        query = query.or(`title.ilike.%${search}%,venue_name.ilike.%${search}%`);
+        const pattern = containsPattern(search);
+        query = query.or(`title.ilike.${pattern},venue_name.ilike.${pattern}`);
       }
 
       const { data, error, count } = await query;
@@ -313,14 +670,7 @@ export class InvitationService {
       const totalViews = metrics?.reduce((sum, m) => sum + (m.view_count || 0), 0) || 0;
       const totalRsvps = metrics?.reduce((sum, m) => sum + (m.rsvp_count || 0), 0) || 0;
 
-      // Get recent activity (simplified for now)
-      const recentActivity = [
-        {
-          type: 'info',
-          message: `You have ${totalInvitations} total invitations`,
-          timestamp: new Date().toISOString()
-        }
-      ];
+      const recentActivity = await ActivityService.getRecent(userId, this.RECENT_ACTIVITY_LIMIT);
 
       return {
         total_invitations: totalInvitations,
@@ -336,36 +686,6 @@ export class InvitationService {
     }
   }
 
-  /**
-   * Track invitation view
-   */
-  private static async trackView(invitationId: string): Promise<void> {
-    try {
-      // First get current view count
-      const { data: current, error: fetchError } = await supabase
-        .from(this.TABLE_NAME)
-        .select('view_count')
-        .eq('id', invitationId)
-        .single();
-
-      if (fetchError) throw fetchError;
-
-      // Update with incremented count
-      const { error } = await supabase
-        .from(this.TABLE_NAME)
-        .update({ 
-          view_count: (current?.view_count || 0) + 1,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', invitationId);
-
-      if (error) throw error;
-    } catch (error) {
-      console.error('Error tracking view:', error);
-      // Don't throw error for analytics
-    }
-  }
-
   /**
    * Generate unique slug for invitation
    */
@@ -381,12 +701,42 @@ export class InvitationService {
       return data;
     } catch (error) {
       console.error('Error generating slug:', error);
-      // Fallback to simple slug generation
-      const timestamp = Date.now();
-      return `${type}-invitation-${timestamp}`;
+      // Fallback: readable base plus a timestamp instead of the database uniqueness check
+      const timestamp = Date.now().toString(36);
+      return `${this.buildSlugBase(type, formData)}-${timestamp}`;
     }
   }
 
+  /**
+   * Readable slug base from the names in the form data (mirrors generate_invitation_slug)
+   */
+  private static buildSlugBase(type: InvitationType, formData: Partial<InvitationFormData>): string {
+    const data = (formData || {}) as Record<string, any>;
+    let base: string;
+
+    switch (type) {
+      case InvitationType.WEDDING:
+        base = `${data.brideName || 'bride'} ${data.groomName || 'groom'} wedding`;
+        break;
+      case InvitationType.BIRTHDAY:
+        base = `${data.celebrantName || 'birthday'} birthday ${data.age ?? 'party'}`;
+        break;
+      case InvitationType.GRADUATION:
+        base = `${data.graduateName || 'graduate'} graduation`;
+        break;
+      case InvitationType.ANNIVERSARY:
+        base = `${data.partnerOneName || 'partner'} ${data.partnerTwoName || 'partner'} anniversary`;
+        break;
+      case InvitationType.PARTY:
+        base = `${data.partyTitle || data.hostName || 'party'} party`;
+        break;
+      default:
+        base = `${type} invitation`;
+    }
+
+    return generateSlug(base).replace(/^-+|-+$/g, '') || `${type}-invitation`;
+  }
+
   /**
    * Extract event date from form data based on invitation type
    */
@@ -403,6 +753,10 @@ export class InvitationService {
           return (formData as any)?.partyDate || null;
         case InvitationType.BUSINESS:
           return (formData as any)?.eventDate || null;
+        case InvitationType.ANNIVERSARY:
+          return (formData as any)?.eventDate || null;
+        case InvitationType.PARTY:
+          return (formData as any)?.partyDate || null;
         default:
           return null;
       }
@@ -453,7 +807,7 @@ export class InvitationService {
       };
 
       // Create the duplicate invitation
-      const duplicatedInvitation = await this.create(userId, newInvitationData);
+      const duplicatedInvitation = await this.create(userId, newInvitationData, true);
 
       console.log(`Invitation duplicated: ${invitationId} -> ${duplicatedInvitation.id} by user ${userId}`);
       return duplicatedInvitation;
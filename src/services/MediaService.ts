@@ -0,0 +1,416 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { supabase } from '../utils/supabase';
+import { storage } from '../utils/storage';
+import { MEDIA_TYPE_RULES, MIME_TYPE_EXTENSIONS, IMAGE_VARIANTS } from '../config/media';
+import { detectMimeType } from '../utils/media-type';
+import { InvitationService } from './InvitationService';
+import {
+  Invitation,
+  InvitationMedia,
+  InvitationMediaResponse,
+  MediaType,
+  UploadMediaRequest
+} from '../types/invitation';
+
+export interface UploadedFile {
+  originalname: string
+  mimetype: string
+  size: number
+  buffer: Buffer
+}
+
+export class MediaService {
+  private static readonly TABLE_NAME = 'invitation_media';
+
+  /**
+   * List media of an invitation, optionally of one media type
+   */
+  static async list(invitationId: string, userId: string, mediaType?: MediaType): Promise<InvitationMediaResponse[]> {
+    await this.assertOwnership(invitationId, userId);
+
+    try {
+      let query = supabase
+        .from(this.TABLE_NAME)
+        .select('*')
+        .eq('invitation_id', invitationId)
+        .order('media_type', { ascending: true })
+        .order('display_order', { ascending: true });
+
+      if (mediaType) query = query.eq('media_type', mediaType);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return (data || []).map(media => this.toResponse(media));
+    } catch (error) {
+      console.error('Error listing media:', error);
+      throw new Error('Failed to list media');
+    }
+  }
+
+  /**
+   * Store an uploaded file and generate its variants.
+   * The file type is taken from the content, never from the client's MIME type or file name.
+   */
+  static async upload(
+    invitationId: string,
+    userId: string,
+    file: UploadedFile,
+    data: UploadMediaRequest
+  ): Promise<InvitationMediaResponse> {
+    await this.assertOwnership(invitationId, userId);
+
+    const rule = MEDIA_TYPE_RULES[data.media_type];
+
+    if (file.size > rule.maxFileSize) {
+      throw new Error(`File too large for ${data.media_type}`);
+    }
+
+    const mimeType = await detectMimeType(file.buffer, rule.fileType);
+    if (!mimeType || !rule.mimeTypes.includes(mimeType)) {
+      throw new Error(`Unsupported file type for ${data.media_type}`);
+    }
+
+    // Early check to skip storing a file that can't be added; insert_invitation_media enforces the limit
+    if (await this.countByType(invitationId, data.media_type) >= rule.maxItems) {
+      throw new Error(`Media limit reached for ${data.media_type}`);
+    }
+
+    const filePath = `${invitationId}/${data.media_type}/${crypto.randomUUID()}${MIME_TYPE_EXTENSIONS[mimeType]}`;
+
+    try {
+      await storage.upload(filePath, file.buffer, mimeType);
+    } catch (error) {
+      console.error('Error storing media file:', error);
+      throw new Error('Failed to upload media');
+    }
+
+    let mediaId: string | null = null;
+    try {
+      const { data: media, error } = await supabase
+        .rpc('insert_invitation_media', {
+          inv_id: invitationId,
+          p_media_type: data.media_type,
+          p_max_items: rule.maxItems,
+          p_file_name: file.originalname,
+          p_file_path: filePath,
+          p_file_type: rule.fileType,
+          p_mime_type: mimeType,
+          p_file_size: file.size,
+          p_alt_text: data.alt_text || null
+        });
+
+      if (error) {
+        // Another upload took the last slot since the early check
+        if (error.code === '23514') throw new Error(`Media limit reached for ${data.media_type}`);
+        throw error;
+      }
+      mediaId = media.id;
+
+      // Generated before responding: work left running after the response is cut off on serverless
+      const processed = await this.process(media, file.buffer);
+
+      return this.toResponse(processed);
+    } catch (error) {
+      if (mediaId) {
+        await supabase.from(this.TABLE_NAME).delete().eq('id', mediaId);
+      }
+      await this.removeFiles([filePath, ...this.variantPaths(filePath)]);
+      if (error instanceof Error && error.message.startsWith('Media limit reached')) throw error;
+      console.error('Error saving media:', error);
+      throw new Error('Failed to upload media');
+    }
+  }
+
+  /**
+   * Set the display order of media items to the order of the given IDs.
+   * Items of the same media types that are left out follow the listed ones.
+   */
+  static async reorder(invitationId: string, userId: string, mediaIds: string[]): Promise<InvitationMediaResponse[]> {
+    await this.assertOwnership(invitationId, userId);
+
+    try {
+      const { error } = await supabase
+        .rpc('reorder_invitation_media', {
+          inv_id: invitationId,
+          p_media_ids: mediaIds
+        });
+
+      if (error) {
+        if (error.code === 'P0002') throw new Error('Media not found');
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Media not found') throw error;
+      console.error('Error reordering media:', error);
+      throw new Error('Failed to reorder media');
+    }
+
+    return this.list(invitationId, userId);
+  }
+
+  /**
+   * Edit the alt text of a media item
+   */
+  static async updateAltText(
+    invitationId: string,
+    mediaId: string,
+    userId: string,
+    altText: string | null
+  ): Promise<InvitationMediaResponse> {
+    await this.assertOwnership(invitationId, userId);
+
+    try {
+      const { data, error } = await supabase
+        .from(this.TABLE_NAME)
+        .update({ alt_text: altText })
+        .eq('id', mediaId)
+        .eq('invitation_id', invitationId)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') throw new Error('Media not found');
+        throw error;
+      }
+
+      return this.toResponse(data);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Media not found') throw error;
+      console.error('Error updating media:', error);
+      throw new Error('Failed to update media');
+    }
+  }
+
+  /**
+   * Make an uploaded image the invitation's hero image
+   */
+  static async setHero(invitationId: string, mediaId: string, userId: string): Promise<InvitationMediaResponse> {
+    await this.assertOwnership(invitationId, userId);
+
+    const media = await this.findById(invitationId, mediaId);
+    if (!media) throw new Error('Media not found');
+    if (media.file_type !== 'image') throw new Error('Only images can be used as hero image');
+
+    try {
+      const { data, error } = await supabase
+        .rpc('set_invitation_hero_media', {
+          inv_id: invitationId,
+          p_media_id: mediaId,
+          p_gallery_max_items: MEDIA_TYPE_RULES[MediaType.GALLERY].maxItems
+        });
+
+      if (error) {
+        // The previous hero image has no room in the gallery
+        if (error.code === '23514') throw new Error(`Media limit reached for ${MediaType.GALLERY}`);
+        throw error;
+      }
+      return this.toResponse(data);
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Media limit reached')) throw error;
+      console.error('Error setting hero image:', error);
+      throw new Error('Failed to set hero image');
+    }
+  }
+
+  /**
+   * Use an uploaded image as the invitation's social preview image
+   */
+  static async setOgImage(invitationId: string, mediaId: string, userId: string): Promise<Invitation> {
+    await this.assertOwnership(invitationId, userId);
+
+    const media = await this.findById(invitationId, mediaId);
+    if (!media) throw new Error('Media not found');
+    if (media.file_type !== 'image') throw new Error('Only images can be used as preview image');
+
+    // Prefer the compressed variant; link previews fetch the image on every share
+    const response = this.toResponse(media);
+
+    try {
+      const { data, error } = await supabase
+        .from('invitations')
+        .update({
+          og_image_url: response.compressed_url || response.url,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', invitationId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Error setting preview image:', error);
+      throw new Error('Failed to set preview image');
+    }
+  }
+
+  /**
+   * Delete a media item together with its stored file and variants
+   */
+  static async delete(invitationId: string, mediaId: string, userId: string): Promise<void> {
+    const invitation = await this.assertOwnership(invitationId, userId);
+
+    const media = await this.findById(invitationId, mediaId);
+    if (!media) throw new Error('Media not found');
+
+    const response = this.toResponse(media);
+
+    try {
+      const { error } = await supabase
+        .from(this.TABLE_NAME)
+        .delete()
+        .eq('id', mediaId)
+        .eq('invitation_id', invitationId);
+
+      if (error) throw error;
+
+      // Don't leave the preview image pointing at a deleted file
+      if (invitation.og_image_url && [response.url, response.compressed_url].includes(invitation.og_image_url)) {
+        const { error: ogError } = await supabase
+          .from('invitations')
+          .update({ og_image_url: null, updated_at: new Date().toISOString() })
+          .eq('id', invitationId);
+
+        if (ogError) throw ogError;
+      }
+    } catch (error) {
+      console.error('Error deleting media:', error);
+      throw new Error('Failed to delete media');
+    }
+
+    await this.removeFiles([media.file_path, media.thumbnail_path, media.compressed_path]);
+  }
+
+  /**
+   * Generate thumbnail and compressed variants of an image, then flag the media as processed.
+   * Audio is stored as uploaded.
+   */
+  private static async process(media: InvitationMedia, content: Buffer): Promise<InvitationMedia> {
+    const updates: Partial<InvitationMedia> = { is_processed: true };
+
+    if (media.file_type === 'image') {
+      const [thumbnailPath, compressedPath] = this.variantPaths(media.file_path);
+
+      const [thumbnail, compressed] = await Promise.all([
+        this.renderVariant(content, IMAGE_VARIANTS.thumbnail, 'cover'),
+        this.renderVariant(content, IMAGE_VARIANTS.compressed, 'inside')
+      ]);
+
+      await storage.upload(thumbnailPath, thumbnail, 'image/webp');
+      await storage.upload(compressedPath, compressed, 'image/webp');
+
+      updates.thumbnail_path = thumbnailPath;
+      updates.compressed_path = compressedPath;
+    }
+
+    const { data, error } = await supabase
+      .from(this.TABLE_NAME)
+      .update(updates)
+      .eq('id', media.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Storage paths of the thumbnail and compressed variants of an image
+   */
+  private static variantPaths(filePath: string): [string, string] {
+    const base = filePath.replace(/\.[^/.]+$/, '');
+    return [`${base}_thumb.webp`, `${base}_compressed.webp`];
+  }
+
+  /**
+   * Resize an image into a WebP variant, honouring EXIF orientation
+   */
+  private static renderVariant(
+    content: Buffer,
+    variant: { width: number; height: number; quality: number },
+    fit: 'cover' | 'inside'
+  ): Promise<Buffer> {
+    return sharp(content)
+      .rotate()
+      .resize({ width: variant.width, height: variant.height, fit, withoutEnlargement: true })
+      .webp({ quality: variant.quality })
+      .toBuffer();
+  }
+
+  /**
+   * Find a media item of an invitation
+   */
+  private static async findById(invitationId: string, mediaId: string): Promise<InvitationMedia | null> {
+    try {
+      const { data, error } = await supabase
+        .from(this.TABLE_NAME)
+        .select('*')
+        .eq('id', mediaId)
+        .eq('invitation_id', invitationId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') return null; // Not found
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error getting media:', error);
+      throw new Error('Failed to get media');
+    }
+  }
+
+  /**
+   * Number of media of one type on an invitation
+   */
+  private static async countByType(invitationId: string, mediaType: MediaType): Promise<number> {
+    const { count, error } = await supabase
+      .from(this.TABLE_NAME)
+      .select('id', { count: 'exact', head: true })
+      .eq('invitation_id', invitationId)
+      .eq('media_type', mediaType);
+
+    if (error) {
+      console.error('Error counting media:', error);
+      throw new Error('Failed to upload media');
+    }
+
+    return count || 0;
+  }
+
+  /**
+   * Remove stored files; failures are logged since the database row is already gone
+   */
+  private static async removeFiles(filePaths: Array<string | null | undefined>): Promise<void> {
+    try {
+      await storage.remove(filePaths.filter((filePath): filePath is string => !!filePath));
+    } catch (error) {
+      console.error('Error removing media files:', error);
+    }
+  }
+
+  /**
+   * Attach public URLs of the stored file and its variants
+   */
+  private static toResponse(media: InvitationMedia): InvitationMediaResponse {
+    return {
+      ...media,
+      url: storage.getPublicUrl(media.file_path),
+      thumbnail_url: media.thumbnail_path ? storage.getPublicUrl(media.thumbnail_path) : null,
+      compressed_url: media.compressed_path ? storage.getPublicUrl(media.compressed_path) : null
+    };
+  }
+
+  /**
+   * Ensure the invitation exists and belongs to the user
+   */
+  private static async assertOwnership(invitationId: string, userId: string): Promise<Invitation> {
+    const invitation = await InvitationService.getById(invitationId, userId);
+    if (!invitation) throw new Error('Invitation not found');
+    return invitation;
+  }
+}
@@ -0,0 +1,215 @@
+import { supabase } from '../utils/supabase';
+import { Plan, CreatePlanRequest, UpdatePlanRequest } from '../types';
+import { Template } from '../types/invitation';
+import { logger } from '../utils/logger';
+import { calculatePagination } from '../utils/helpers';
+
+export class PlanService {
+  /**
+   * Get paginated list of plans
+   */
+  static async getPlans(options: {
+    page: number;
+    limit: number;
+    type?: 'FREE' | 'PREMIUM';
+    is_active?: boolean;
+  }): Promise<{ plans: (Plan & { template_count?: number })[]; meta: any }> {
+    const { page, limit, type, is_active } = options;
+    const offset = (page - 1) * limit;
+
+    let query = supabase
+      .from('plans')
+      .select('*, plan_templates(count)', { count: 'exact' });
+
+    // Apply filters
+    if (type) {
+      query = query.eq('type', type);
+    }
+
+    if (is_active !== undefined) {
+      query = query.eq('is_active', is_active);
+    }
+
+    // Apply pagination
+    query = query
+      .range(offset, offset + limit - 1)
+      .order('price', { ascending: true });
+
+    const { data: plans, error, count } = await query;
+
+    if (error) {
+      logger.error('Failed to fetch plans:', error);
+      throw new Error('Failed to fetch plans');
+    }
+
+    const meta = calculatePagination(page, limit, count || 0);
+
+    return {
+      plans: (plans || []).map(({ plan_templates, ...plan }: any) => ({
+        ...plan,
+        template_count: plan_templates?.[0]?.count || 0
+      })),
+      meta
+    };
+  }
+
+  /**
+   * Get plan by ID
+   */
+  static async getPlanById(id: string): Promise<Plan | null> {
+    const { data: plan, error } = await supabase
+      .from('plans')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !plan) {
+      return null;
+    }
+
+    return plan;
+  }
+
+  /**
+   * Create a new plan
+   */
+  static async createPlan(data: CreatePlanRequest): Promise<Plan> {
+    const { data: newPlan, error } = await supabase
+      .from('plans')
+      .insert([{
+        name: data.name,
+        description: data.description || null,
+        type: data.type,
+        price: data.price,
+        invite_type: data.invite_type,
+        features: data.features || null,
+        max_invites: data.max_invites ?? null,
+        max_templates: data.max_templates ?? null
+      }])
+      .select('*')
+      .single();
+
+    if (error || !newPlan) {
+      logger.error('Failed to create plan:', error);
+      throw new Error('Failed to create plan');
+    }
+
+    logger.info('New plan created:', { id: newPlan.id, name: newPlan.name });
+
+    return newPlan;
+  }
+
+  /**
+   * Update plan
+   */
+  static async updatePlan(id: string, data: UpdatePlanRequest): Promise<Plan> {
+    const { data: updatedPlan, error } = await supabase
+      .from('plans')
+      .update(data)
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (error?.code === 'PGRST116') {
+      throw new Error('Plan not found');
+    }
+
+    if (error || !updatedPlan) {
+      logger.error('Failed to update plan:', error);
+      throw new Error('Failed to update plan');
+    }
+
+    logger.info('Plan updated:', { id, data });
+
+    return updatedPlan;
+  }
+
+  /**
+   * Delete plan; plans that orders were sold under can only be deactivated.
+   * This API never writes invites.plan_id, so invites are only caught by its foreign key.
+   */
+  static async deletePlan(id: string): Promise<void> {
+    const plan = await this.getPlanById(id);
+    if (!plan) {
+      throw new Error('Plan not found');
+    }
+
+    const { count, error: countError } = await supabase
+      .from('orders')
+      .select('id', { count: 'exact', head: true })
+      .eq('plan_id', id);
+
+    if (countError) {
+      logger.error('Failed to check plan usage:', countError);
+      throw new Error('Failed to delete plan');
+    }
+
+    if ((count || 0) > 0) {
+      throw new Error('Plan is in use');
+    }
+
+    const { error } = await supabase
+      .from('plans')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      // Referenced by an invite, or by an order since the usage check
+      if (error.code === '23503') {
+        throw new Error('Plan is in use');
+      }
+
+      logger.error('Failed to delete plan:', error);
+      throw new Error('Failed to delete plan');
+    }
+
+    logger.info('Plan deleted:', { id });
+  }
+
+  /**
+   * Get templates included in a plan
+   */
+  static async getPlanTemplates(id: string): Promise<Template[]> {
+    const plan = await this.getPlanById(id);
+    if (!plan) {
+      throw new Error('Plan not found');
+    }
+
+    const { data, error } = await supabase
+      .from('plan_templates')
+      .select('template:templates(*)')
+      .eq('plan_id', id);
+
+    if (error) {
+      logger.error('Failed to fetch plan templates:', error);
+      throw new Error('Failed to fetch plan templates');
+    }
+
+    return (data || []).map((row: any) => row.template as Template).filter(Boolean);
+  }
+
+  /**
+   * Replace the templates included in a plan
+   */
+  static async setPlanTemplates(id: string, templateIds: string[]): Promise<Template[]> {
+    const { error } = await supabase
+      .rpc('set_plan_templates', {
+        p_plan_id: id,
+        p_template_ids: templateIds
+      });
+
+    if (error) {
+      // Raised by set_plan_templates with the missing entity as message
+      if (error.code === 'P0002') {
+        throw new Error(error.message);
+      }
+
+      logger.error('Failed to set plan templates:', error);
+      throw new Error('Failed to set plan templates');
+    }
+
+    logger.info('Plan templates updated:', { id, count: templateIds.length });
+
+    return this.getPlanTemplates(id);
+  }
+}
@@ -0,0 +1,107 @@
+import { InvitationService } from './InvitationService';
+import { TemplateService } from './TemplateService';
+import { TemplateVersionService } from './TemplateVersionService';
+import { GuestService } from './GuestService';
+import { deepMerge } from '../utils/helpers';
+import {
+  Invitation,
+  InvitationGuest,
+  InvitationFormData,
+  PublicInvitation,
+  PublicGuest,
+  InvitationRenderPayload
+} from '../types/invitation';
+
+export class PublicInvitationService {
+  /**
+   * Build the render payload for a published invitation (public access).
+   * A guest token personalizes the payload and records the guest's first open.
+   */
+  static async getRenderPayload(slug: string, guestToken?: string): Promise<InvitationRenderPayload | null> {
+    const invitation = await InvitationService.getBySlug(slug);
+    if (!invitation) return null;
+
+    const template = invitation.template_id
+      ? await TemplateService.getByIdIncludingInactive(invitation.template_id)
+      : null;
+
+    // Published invitations render the template version they are pinned to
+    const rendered = template
+      ? await TemplateVersionService.resolve(template, invitation.template_version)
+      : null;
+
+    const guest = guestToken
+      ? await GuestService.openByToken(invitation.id, guestToken)
+      : null;
+
+    return {
+      invitation: this.toPublicInvitation(invitation),
+      guest: guest ? this.toPublicGuest(guest) : null,
+      template: template && rendered
+        ? {
+            id: template.id,
+            name: template.name,
+            category: template.category,
+            style: template.style,
+            template_data: rendered.template_data,
+            features: template.features
+          }
+        : null,
+      // Template defaults first, host customization on top
+      config: deepMerge(rendered?.default_config || {}, invitation.template_customization || {})
+    };
+  }
+
+  /**
+   * Strip owner-only fields from an invitation before it is shown to guests
+   */
+  private static toPublicInvitation(invitation: Invitation): PublicInvitation {
+    return {
+      id: invitation.id,
+      slug: invitation.slug,
+      title: invitation.title,
+      type: invitation.type,
+      status: invitation.status,
+      form_data: this.sanitizeFormData(invitation.form_data),
+      event_date: invitation.event_date,
+      venue_name: invitation.venue_name,
+      venue_address: invitation.venue_address,
+      published_at: invitation.published_at,
+      expires_at: invitation.expires_at,
+      rsvp_enabled: invitation.rsvp_enabled,
+      rsvp_deadline: invitation.rsvp_deadline,
+      require_approval: invitation.require_approval,
+      meta_title: invitation.meta_title,
+      meta_description: invitation.meta_description,
+      og_image_url: invitation.og_image_url
+    };
+  }
+
+  /**
+   * Only expose what a guest needs to be greeted and to pre-fill their RSVP
+   */
+  private static toPublicGuest(guest: InvitationGuest): PublicGuest {
+    return {
+      id: guest.id,
+      name: guest.name,
+      response: guest.response,
+      response_data: guest.response_data,
+      plus_ones_count: guest.plus_ones_count,
+      plus_ones_details: guest.plus_ones_details,
+      is_approved: guest.is_approved
+    };
+  }
+
+  /**
+   * Bank details are only shown when the host turned on the gift registry
+   */
+  private static sanitizeFormData(formData: InvitationFormData): InvitationFormData {
+    const { bankAccount, ...rest } = (formData || {}) as Record<string, any>;
+
+    if (bankAccount && rest.giftRegistryEnabled === true) {
+      return { ...rest, bankAccount } as InvitationFormData;
+    }
+
+    return rest as InvitationFormData;
+  }
+}
@@ -0,0 +1,156 @@
+import { supabase } from '../utils/supabase';
+import { validateInvitationData } from '../utils/validation';
+import { TemplateService } from './TemplateService';
+import {
+  Invitation,
+  InvitationReadiness,
+  ReadinessCheck,
+  MediaType
+} from '../types/invitation';
+
+/**
+ * Thrown by publish when blocking readiness checks fail
+ */
+export class InvitationNotReadyError extends Error {
+  constructor(public readonly readiness: InvitationReadiness) {
+    super('Invitation is not ready to publish');
+    this.name = 'InvitationNotReadyError';
+  }
+}
+
+export class ReadinessService {
+  /**
+   * Build the publish checklist of an invitation.
+   * Blocking checks prevent publishing; advisory checks are suggestions.
+   */
+  static async check(invitation: Invitation): Promise<InvitationReadiness> {
+    try {
+      const checks: ReadinessCheck[] = [
+        this.checkFormData(invitation),
+        ...(await this.checkTemplate(invitation)),
+        this.checkEventDate(invitation),
+        await this.checkHeroImage(invitation),
+        await this.checkGuests(invitation),
+        this.checkRsvpDeadline(invitation)
+      ];
+
+      const blockingCount = checks.filter(check => check.status === 'blocking').length;
+
+      return {
+        ready: blockingCount === 0,
+        blocking_count: blockingCount,
+        advisory_count: checks.filter(check => check.status === 'advisory').length,
+        checks
+      };
+    } catch (error) {
+      console.error('Error checking invitation readiness:', error);
+      throw new Error('Failed to check invitation readiness');
+    }
+  }
+
+  private static checkFormData(invitation: Invitation): ReadinessCheck {
+    const validation = validateInvitationData(invitation.type, invitation.form_data, 'publish');
+
+    return validation.isValid
+      ? { id: 'form_data', label: 'Invitation details', status: 'passed', message: null }
+      : {
+          id: 'form_data',
+          label: 'Invitation details',
+          status: 'blocking',
+          message: 'Some required details are missing or invalid',
+          details: validation.errors
+        };
+  }
+
+  /**
+   * A live template must be selected, and premium templates must be paid for.
+   * Published invitations keep working when their template is deactivated; drafts must pick an active one.
+   */
+  private static async checkTemplate(invitation: Invitation): Promise<ReadinessCheck[]> {
+    if (!invitation.template_id) {
+      return [{ id: 'template', label: 'Template', status: 'blocking', message: 'Select a template' }];
+    }
+
+    const template = await TemplateService.getByIdIncludingInactive(invitation.template_id);
+    if (!template || (!template.is_active && !invitation.is_published)) {
+      return [{ id: 'template', label: 'Template', status: 'blocking', message: 'The selected template is no longer available' }];
+    }
+
+    const templateCheck: ReadinessCheck = { id: 'template', label: 'Template', status: 'passed', message: null };
+    if (!template.is_premium) return [templateCheck];
+
+    const paid = await this.hasPurchasedTemplate(invitation.user_id, template.id);
+    return [
+      templateCheck,
+      paid
+        ? { id: 'template_payment', label: 'Premium template', status: 'passed', message: null }
+        : { id: 'template_payment', label: 'Premium template', status: 'blocking', message: `"${template.name}" is a premium template and has not been paid for` }
+    ];
+  }
+
+  private static checkEventDate(invitation: Invitation): ReadinessCheck {
+    if (!invitation.event_date) {
+      return { id: 'event_date', label: 'Event date', status: 'blocking', message: 'Set the event date' };
+    }
+
+    const eventDay = new Date(invitation.event_date).toISOString().slice(0, 10);
+    const today = new Date().toISOString().slice(0, 10);
+
+    return eventDay < today
+      ? { id: 'event_date', label: 'Event date', status: 'blocking', message: 'The event date is in the past' }
+      : { id: 'event_date', label: 'Event date', status: 'passed', message: null };
+  }
+
+  private static async checkHeroImage(invitation: Invitation): Promise<ReadinessCheck> {
+    const { count, error } = await supabase
+      .from('invitation_media')
+      .select('*', { count: 'exact', head: true })
+      .eq('invitation_id', invitation.id)
+      .eq('media_type', MediaType.HERO_IMAGE);
+
+    if (error) throw error;
+
+    return count
+      ? { id: 'hero_image', label: 'Hero image', status: 'passed', message: null }
+      : { id: 'hero_image', label: 'Hero image', status: 'advisory', message: 'Invitations with a hero image get more responses' };
+  }
+
+  private static async checkGuests(invitation: Invitation): Promise<ReadinessCheck> {
+    const { count, error } = await supabase
+      .from('invitation_guests')
+      .select('*', { count: 'exact', head: true })
+      .eq('invitation_id', invitation.id);
+
+    if (error) throw error;
+
+    return count
+      ? { id: 'guests', label: 'Guest list', status: 'passed', message: null }
+      : { id: 'guests', label: 'Guest list', status: 'advisory', message: 'No guests added yet; personalized links can only be sent to listed guests' };
+  }
+
+  private static checkRsvpDeadline(invitation: Invitation): ReadinessCheck {
+    const lateDeadline = invitation.rsvp_enabled
+      && invitation.rsvp_deadline
+      && invitation.event_date
+      && new Date(invitation.rsvp_deadline).getTime() > new Date(invitation.event_date).getTime();
+
+    return lateDeadline
+      ? { id: 'rsvp_deadline', label: 'RSVP deadline', status: 'advisory', message: 'The RSVP deadline is after the event date' }
+      : { id: 'rsvp_deadline', label: 'RSVP deadline', status: 'passed', message: null };
+  }
+
+  /**
+   * Whether the user has a completed order for a premium template
+   */
+  static async hasPurchasedTemplate(userId: string, templateId: string): Promise<boolean> {
+    const { count, error } = await supabase
+      .from('orders')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('template_id', templateId)
+      .eq('status', 'completed');
+
+    if (error) throw error;
+    return (count || 0) > 0;
+  }
+}
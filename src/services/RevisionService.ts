@@ -0,0 +1,157 @@
+import { supabase } from '../utils/supabase';
+import { diffObjects } from '../utils/helpers';
+import {
+  Invitation,
+  InvitationRevision,
+  RevisionListResponse,
+  RevisionDiffResponse
+} from '../types/invitation';
+
+type RevisionContent = Pick<InvitationRevision, 'title' | 'form_data' | 'template_customization'>;
+
+export class RevisionService {
+  private static readonly TABLE_NAME = 'invitation_revisions';
+
+  /**
+   * Record a revision of an invitation: the content a successful change replaced, or the current content
+   */
+  static async snapshot(
+    invitationId: string,
+    userId: string,
+    source: InvitationRevision['source'] = 'update',
+    previous?: RevisionContent
+  ): Promise<InvitationRevision | null> {
+    try {
+      const { data, error } = await supabase
+        .rpc('record_invitation_revision', {
+          inv_id: invitationId,
+          p_user_id: userId,
+          p_source: source,
+          p_title: previous?.title ?? null,
+          p_form_data: previous?.form_data ?? null,
+          p_template_customization: previous?.template_customization ?? null
+        });
+
+      if (error) throw error;
+
+      // A composite NULL comes back as an object of nulls
+      return data && data.id ? data : null;
+    } catch (error) {
+      console.error('Error recording invitation revision:', error);
+      throw new Error('Failed to record invitation revision');
+    }
+  }
+
+  /**
+   * List revisions of an invitation, newest first (content omitted)
+   */
+  static async list(invitationId: string, userId: string, options: { page?: number; limit?: number } = {}): Promise<RevisionListResponse> {
+    await this.getOwnedInvitation(invitationId, userId);
+
+    try {
+      const { page = 1, limit = 20 } = options;
+      const offset = (page - 1) * limit;
+
+      const { data, error, count } = await supabase
+        .from(this.TABLE_NAME)
+        .select('id, invitation_id, revision_number, title, source, created_by, created_at', { count: 'exact' })
+        .eq('invitation_id', invitationId)
+        .order('revision_number', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) throw error;
+
+      return {
+        revisions: data || [],
+        total: count || 0,
+        page,
+        limit,
+        has_more: (count || 0) > offset + limit
+      };
+    } catch (error) {
+      console.error('Error listing invitation revisions:', error);
+      throw new Error('Failed to list invitation revisions');
+    }
+  }
+
+  /**
+   * Get a single revision with its content
+   */
+  static async getByNumber(invitationId: string, revisionNumber: number, userId: string): Promise<InvitationRevision> {
+    await this.getOwnedInvitation(invitationId, userId);
+
+    const revision = await this.findByNumber(invitationId, revisionNumber);
+    if (!revision) throw new Error('Revision not found');
+
+    return revision;
+  }
+
+  /**
+   * Compare two revisions, or a revision with the current invitation when `to` is omitted
+   */
+  static async diff(invitationId: string, userId: string, from: number, to?: number): Promise<RevisionDiffResponse> {
+    const invitation = await this.getOwnedInvitation(invitationId, userId);
+
+    const [fromRevision, toRevision] = await Promise.all([
+      this.findByNumber(invitationId, from),
+      to !== undefined ? this.findByNumber(invitationId, to) : Promise.resolve(null)
+    ]);
+
+    if (!fromRevision || (to !== undefined && !toRevision)) throw new Error('Revision not found');
+
+    return {
+      from,
+      to: to ?? null,
+      changes: diffObjects(this.toContent(fromRevision), this.toContent(toRevision || invitation))
+    };
+  }
+
+  private static toContent(source: RevisionContent): RevisionContent {
+    return {
+      title: source.title,
+      form_data: source.form_data,
+      template_customization: source.template_customization || null
+    };
+  }
+
+  private static async findByNumber(invitationId: string, revisionNumber: number): Promise<InvitationRevision | null> {
+    try {
+      const { data, error } = await supabase
+        .from(this.TABLE_NAME)
+        .select('*')
+        .eq('invitation_id', invitationId)
+        .eq('revision_number', revisionNumber)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') return null; // Not found
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error getting invitation revision:', error);
+      throw new Error('Failed to get invitation revision');
+    }
+  }
+
+  /**
+   * Load the invitation, ensuring it belongs to the user
+   */
+  private static async getOwnedInvitation(invitationId: string, userId: string): Promise<Invitation> {
+    const { data, error } = await supabase
+      .from('invitations')
+      .select('*')
+      .eq('id', invitationId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') throw new Error('Invitation not found');
+      console.error('Error getting invitation:', error);
+      throw new Error('Failed to get invitation');
+    }
+
+    return data;
+  }
+}
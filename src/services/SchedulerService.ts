@@ -0,0 +1,170 @@
+import { supabase } from '../utils/supabase';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { InvitationService } from './InvitationService';
+import { TemplateService } from './TemplateService';
+import { ActivityService } from './ActivityService';
+import { InvitationNotReadyError } from './ReadinessService';
+import {
+  Invitation,
+  InvitationStatus,
+  ActivityType,
+  SchedulerRunResult
+} from '../types/invitation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class SchedulerService {
+  private static readonly TABLE_NAME = 'invitations';
+  private static readonly BATCH_SIZE = 100;
+
+  private static timer: NodeJS.Timeout | null = null;
+  private static running = false;
+
+  /**
+   * Run the scheduler on an interval inside this process (long-lived servers only)
+   */
+  static start(intervalMs: number = config.scheduler.intervalMs): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.run().catch(error => logger.error('Scheduler run failed:', error));
+    }, intervalMs);
+
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref();
+    logger.info('Invitation scheduler started', { intervalMs });
+  }
+
+  static stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Publish due scheduled drafts, expire finished invitations and periodically rescore template popularity.
+   * Overlapping runs in the same process are skipped.
+   */
+  static async run(): Promise<SchedulerRunResult> {
+    if (this.running) return { published: 0, skipped: 0, expired: 0, rescored: 0 };
+
+    this.running = true;
+    try {
+      const { published, skipped } = await this.publishDue();
+      const expired = await this.expireDue();
+      const rescored = await this.rescoreTemplatesIfDue();
+
+      if (published || skipped || expired || rescored) {
+        logger.info('Scheduler run completed', { published, skipped, expired, rescored });
+      }
+
+      return { published, skipped, expired, rescored };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Publish drafts whose publish_at has passed; drafts that are no longer ready lose their schedule
+   */
+  private static async publishDue(): Promise<{ published: number; skipped: number }> {
+    const { data, error } = await supabase
+      .from(this.TABLE_NAME)
+      .select('*')
+      .eq('is_published', false)
+      .not('publish_at', 'is', null)
+      .lte('publish_at', new Date().toISOString())
+      .order('publish_at', { ascending: true })
+      .limit(this.BATCH_SIZE);
+
+    if (error) {
+      logger.error('Error loading scheduled invitations:', error);
+      throw new Error('Failed to load scheduled invitations');
+    }
+
+    let published = 0;
+    let skipped = 0;
+
+    for (const invitation of (data || []) as Invitation[]) {
+      try {
+        await InvitationService.publish(invitation.id, invitation.user_id, {
+          expires_at: invitation.expires_at || undefined,
+          meta_title: invitation.meta_title || undefined,
+          meta_description: invitation.meta_description || undefined
+        });
+        published += 1;
+      } catch (publishError) {
+        if (!(publishError instanceof InvitationNotReadyError)) {
+          // Transient failure; the next run retries
+          logger.error('Error publishing scheduled invitation:', { id: invitation.id, error: publishError });
+          continue;
+        }
+
+        await InvitationService.cancelScheduledPublish(invitation.id);
+        await ActivityService.record({
+          userId: invitation.user_id,
+          invitationId: invitation.id,
+          type: ActivityType.INVITATION_SCHEDULE_FAILED,
+          message: `"${invitation.title}" was not published: it is not ready`,
+          metadata: { blocking_count: publishError.readiness.blocking_count }
+        });
+        skipped += 1;
+      }
+    }
+
+    return { published, skipped };
+  }
+
+  /**
+   * Expire published invitations past expires_at, or past the grace period after event_date
+   */
+  private static async expireDue(): Promise<number> {
+    const now = new Date();
+    const eventCutoff = new Date(now.getTime() - config.scheduler.expireAfterEventDays * DAY_MS);
+
+    const [byExpiry, byEventDate] = await Promise.all([
+      supabase
+        .from(this.TABLE_NAME)
+        .select('*')
+        .eq('status', InvitationStatus.PUBLISHED)
+        .lte('expires_at', now.toISOString())
+        .limit(this.BATCH_SIZE),
+      supabase
+        .from(this.TABLE_NAME)
+        .select('*')
+        .eq('status', InvitationStatus.PUBLISHED)
+        .is('expires_at', null)
+        .lte('event_date', eventCutoff.toISOString())
+        .limit(this.BATCH_SIZE)
+    ]);
+
+    const failed = [byExpiry, byEventDate].find(result => result.error);
+    if (failed?.error) {
+      logger.error('Error loading invitations to expire:', failed.error);
+      throw new Error('Failed to load invitations to expire');
+    }
+
+    let expired = 0;
+    for (const invitation of [...(byExpiry.data || []), ...(byEventDate.data || [])] as Invitation[]) {
+      if (await InvitationService.markExpired(invitation)) expired += 1;
+    }
+
+    return expired;
+  }
+
+  /**
+   * Recalculate template popularity at most once per popularity interval. The last run is kept in the
+   * database, so the interval holds across server instances and cron invocations.
+   * A failure is logged and retried on the next run without failing this one.
+   */
+  private static async rescoreTemplatesIfDue(): Promise<number> {
+    try {
+      return await TemplateService.recalculatePopularity(config.scheduler.popularityIntervalMs);
+    } catch (error) {
+      logger.error('Error rescoring templates:', error);
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { supabase } from '../utils/supabase';
+import { generateSlug } from '../utils/helpers';
+import { SLUG_MIN_LENGTH, SLUG_MAX_LENGTH, RESERVED_SLUGS } from '../config/slugs';
+import { Invitation, SlugAvailabilityResponse } from '../types/invitation';
+
+export class SlugService {
+  private static readonly TABLE_NAME = 'invitation_slug_redirects';
+
+  /**
+   * Check whether a slug can be used, after normalizing it.
+   * The invitation's own current and previous slugs count as available to it.
+   */
+  static async checkAvailability(input: string, invitationId?: string): Promise<SlugAvailabilityResponse> {
+    const slug = generateSlug(input);
+
+    if (slug.length < SLUG_MIN_LENGTH || slug.length > SLUG_MAX_LENGTH) {
+      return {
+        slug,
+        available: false,
+        reason: 'invalid',
+        message: `Slug must be ${SLUG_MIN_LENGTH}-${SLUG_MAX_LENGTH} characters of letters, numbers and hyphens`
+      };
+    }
+
+    if (RESERVED_SLUGS.has(slug)) {
+      return { slug, available: false, reason: 'reserved', message: 'Slug is reserved' };
+    }
+
+    try {
+      let invitationQuery = supabase
+        .from('invitations')
+        .select('id', { count: 'exact', head: true })
+        .eq('slug', slug);
+      let redirectQuery = supabase
+        .from(this.TABLE_NAME)
+        .select('id', { count: 'exact', head: true })
+        .eq('slug', slug);
+
+      if (invitationId) {
+        invitationQuery = invitationQuery.neq('id', invitationId);
+        redirectQuery = redirectQuery.neq('invitation_id', invitationId);
+      }
+
+      const [invitations, redirects] = await Promise.all([invitationQuery, redirectQuery]);
+
+      if (invitations.error) throw invitations.error;
+      if (redirects.error) throw redirects.error;
+
+      return (invitations.count || 0) + (redirects.count || 0) > 0
+        ? { slug, available: false, reason: 'taken', message: 'Slug is already taken' }
+        : { slug, available: true, reason: null, message: null };
+    } catch (error) {
+      console.error('Error checking slug availability:', error);
+      throw new Error('Failed to check slug availability');
+    }
+  }
+
+  /**
+   * Change the slug of an invitation.
+   * Once an invitation has been published its old slug keeps redirecting to the new one.
+   */
+  static async change(invitationId: string, userId: string, input: string): Promise<Invitation> {
+    const availability = await this.checkAvailability(input, invitationId);
+    if (!availability.available) throw new Error(availability.message || 'Slug is not available');
+
+    try {
+      const { data, error } = await supabase
+        .rpc('change_invitation_slug', {
+          inv_id: invitationId,
+          p_user_id: userId,
+          p_slug: availability.slug
+        });
+
+      if (error) {
+        // Claimed by another invitation since the availability check
+        if (error.code === '23505') throw new Error('Slug is already taken');
+        throw error;
+      }
+
+      // A composite NULL comes back as an object of nulls
+      if (!data || !data.id) throw new Error('Invitation not found');
+
+      return data;
+    } catch (error) {
+      if (error instanceof Error && ['Invitation not found', 'Slug is already taken'].includes(error.message)) throw error;
+      console.error('Error changing invitation slug:', error);
+      throw new Error('Failed to change invitation slug');
+    }
+  }
+
+  /**
+   * Current slug of a published invitation that used to be reachable at the given slug
+   */
+  static async resolveRedirect(slug: string): Promise<string | null> {
+    try {
+      const { data, error } = await supabase
+        .from(this.TABLE_NAME)
+        .select('invitation:invitations(slug, is_published)')
+        .eq('slug', slug)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') return null; // Not found
+        throw error;
+      }
+
+      const invitation = data.invitation as unknown as Pick<Invitation, 'slug' | 'is_published'> | null;
+      return invitation?.is_published ? invitation.slug : null;
+    } catch (error) {
+      console.error('Error resolving slug redirect:', error);
+      throw new Error('Failed to resolve slug');
+    }
+  }
+}
@@ -3,7 +3,11 @@ import {
   Template, 
   InvitationType, 
   TemplateStyle,
-  TemplateListResponse
+  TemplateListResponse,
+  TemplateCompatibilityReport,
+  CreateTemplateRequest,
+  UpdateTemplateRequest,
+  InvitationFormData
 } from '../types/invitation';
 
 export class TemplateService {
@@ -34,7 +38,7 @@ export class TemplateService {
   }
 
   /**
-   * List templates with filtering and pagination
+   * List templates with filtering and pagination; only active templates unless isActive says otherwise
    */
   static async list(options: {
     page?: number;
@@ -42,6 +46,7 @@ export class TemplateService {
     category?: InvitationType | 'all';
     style?: TemplateStyle | 'all';
     isPremium?: boolean;
+    isActive?: boolean | 'all';
     search?: string;
     sortBy?: 'popularity' | 'newest' | 'name';
   } = {}): Promise<TemplateListResponse> {
@@ -52,6 +57,7 @@ export class TemplateService {
         category, 
         style, 
         isPremium, 
+        isActive = true,
         search,
         sortBy = 'popularity'
       } = options;
@@ -61,10 +67,13 @@ export class TemplateService {
       let query = supabase
         .from(this.TABLE_NAME)
         .select('*', { count: 'exact' })
-        .eq('is_active', true)
         .range(offset, offset + limit - 1);
 
       // Apply filters
+      if (isActive !== 'all') {
+        query = query.eq('is_active', isActive);
+      }
+
       if (category && category !== 'all') {
         query = query.eq('category', category);
       }
@@ -184,32 +193,175 @@ export class TemplateService {
   }
 
   /**
-   * Increment template usage count when used
+   * Get template by ID whether or not it is active.
+   * For admins and for invitations that already use the template; new picks go through getById.
    */
-  static async incrementUsage(templateId: string): Promise<void> {
+  static async getByIdIncludingInactive(id: string): Promise<Template | null> {
     try {
-      // First get current usage count
-      const { data: current, error: fetchError } = await supabase
+      const { data, error } = await supabase
         .from(this.TABLE_NAME)
-        .select('usage_count')
-        .eq('id', templateId)
+        .select('*')
+        .eq('id', id)
         .single();
 
-      if (fetchError) throw fetchError;
+      if (error) {
+        if (error.code === 'PGRST116') return null; // Not found
+        throw error;
+      }
 
-      // Update with incremented count
-      const { error } = await supabase
+      return data;
+    } catch (error) {
+      console.error('Error fetching template:', error);
+      throw new Error('Failed to fetch template');
+    }
+  }
+
+  /**
+   * Create a template (admin)
+   */
+  static async create(data: CreateTemplateRequest, adminId: string): Promise<Template> {
+    try {
+      const { data: result, error } = await supabase
+        .from(this.TABLE_NAME)
+        .insert({
+          name: data.name,
+          description: data.description || null,
+          thumbnail_url: data.thumbnail_url || null,
+          preview_url: data.preview_url || null,
+          category: data.category,
+          style: data.style,
+          template_data: data.template_data,
+          default_config: data.default_config || null,
+          supported_fields: data.supported_fields || null,
+          features: data.features || null,
+          tags: data.tags || null,
+          is_premium: data.is_premium,
+          price: data.price,
+          popularity_score: 0,
+          usage_count: 0,
+          is_active: true,
+          created_by: adminId
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return result;
+    } catch (error) {
+      console.error('Error creating template:', error);
+      throw new Error('Failed to create template');
+    }
+  }
+
+  /**
+   * Update a template (admin)
+   */
+  static async update(id: string, data: UpdateTemplateRequest): Promise<Template> {
+    const existing = await this.getByIdIncludingInactive(id);
+    if (!existing) throw new Error('Template not found');
+
+    // Checked against the stored values since either field may be omitted
+    if (data.is_premium !== undefined || data.price !== undefined) {
+      const isPremium = data.is_premium ?? existing.is_premium;
+      const price = data.price ?? existing.price;
+      if (isPremium && !(price > 0)) throw new Error('Premium templates must have a price');
+    }
+
+    try {
+      const { data: result, error } = await supabase
         .from(this.TABLE_NAME)
-        .update({ 
-          usage_count: (current?.usage_count || 0) + 1,
+        .update({
+          ...data,
           updated_at: new Date().toISOString()
         })
-        .eq('id', templateId);
+        .eq('id', id)
+        .select()
+        .single();
 
       if (error) throw error;
+      return result;
     } catch (error) {
-      console.error('Error incrementing template usage:', error);
-      // Don't throw error for analytics
+      console.error('Error updating template:', error);
+      throw new Error('Failed to update template');
+    }
+  }
+
+  /**
+   * Hide a template from the catalog or bring it back (admin).
+   * Invitations already using a deactivated template keep it.
+   */
+  static async setActive(id: string, isActive: boolean): Promise<Template> {
+    return this.update(id, { is_active: isActive });
+  }
+
+  /**
+   * Delete a template that no invitation or order references (admin)
+   */
+  static async delete(id: string): Promise<void> {
+    const existing = await this.getByIdIncludingInactive(id);
+    if (!existing) throw new Error('Template not found');
+
+    try {
+      // Orders would otherwise lose their purchased template (ON DELETE SET NULL)
+      const [invitations, orders] = await Promise.all([
+        supabase.from('invitations').select('id', { count: 'exact', head: true }).eq('template_id', id),
+        supabase.from('orders').select('id', { count: 'exact', head: true }).eq('template_id', id)
+      ]);
+
+      if (invitations.error) throw invitations.error;
+      if (orders.error) throw orders.error;
+      if ((invitations.count || 0) + (orders.count || 0) > 0) throw new Error('Template is in use');
+
+      const { error } = await supabase
+        .from(this.TABLE_NAME)
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        // Foreign key violation: still referenced elsewhere (e.g. admin invites)
+        if (error.code === '23503') throw new Error('Template is in use');
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Template is in use') throw error;
+      console.error('Error deleting template:', error);
+      throw new Error('Failed to delete template');
+    }
+  }
+
+  /**
+   * Count an invitation that starts using a template (created with it or switched to it).
+   * Publishing doesn't change which template is used; recent publishes weigh into popularity instead.
+   */
+  static async incrementUsage(templateId: string): Promise<void> {
+    await this.adjustUsage(templateId, 1);
+  }
+
+  /**
+   * Uncount an invitation that stops using a template (switched away or deleted)
+   */
+  static async decrementUsage(templateId: string): Promise<void> {
+    await this.adjustUsage(templateId, -1);
+  }
+
+  /**
+   * Recount usage_count and recalculate popularity_score of every template from usage, views and recent publishes.
+   * Skipped when the last recalculation, by any server instance, was less than minIntervalMs ago.
+   * Returns the number of templates that changed.
+   */
+  static async recalculatePopularity(minIntervalMs: number = 0, recentDays: number = 30): Promise<number> {
+    try {
+      const { data, error } = await supabase
+        .rpc('recalculate_template_popularity', {
+          p_recent_days: recentDays,
+          p_min_interval_seconds: Math.floor(minIntervalMs / 1000)
+        });
+
+      if (error) throw error;
+      return data || 0;
+    } catch (error) {
+      console.error('Error recalculating template popularity:', error);
+      throw new Error('Failed to recalculate template popularity');
     }
   }
 
@@ -272,12 +424,13 @@ export class TemplateService {
         return acc;
       }, {} as Record<string, number>);
 
-      // Get popular template for each category
+      // Every invitation type is listed, even before it has templates
       const categoriesWithCounts = await Promise.all(
-        Object.entries(categoryCounts).map(async ([category, count]) => {
-          const popularTemplates = await this.getByCategory(category as InvitationType, 1);
+        Object.values(InvitationType).map(async (category) => {
+          const count = categoryCounts[category] || 0;
+          const popularTemplates = count > 0 ? await this.getByCategory(category, 1) : [];
           return {
-            category: category as InvitationType,
+            category,
             count,
             popular_template: popularTemplates[0] || null
           };
@@ -347,4 +500,75 @@ export class TemplateService {
       throw new Error('Failed to fetch related templates');
     }
   }
+
+  /**
+   * Compare the fields a template displays with the populated fields of an invitation.
+   * Templates that don't declare supported_fields are assumed to display everything.
+   */
+  static checkCompatibility(
+    template: Template,
+    type: InvitationType,
+    formData: Partial<InvitationFormData>
+  ): TemplateCompatibilityReport {
+    const values = (formData || {}) as Record<string, unknown>;
+    const populated = Object.keys(values).filter(key => this.isPopulated(values[key]));
+    const supported = template.supported_fields;
+
+    const unsupportedFields = supported
+      ? populated.filter(key => !supported.some(field => this.displaysField(field, key)))
+      : [];
+    const missingFields = supported
+      ? supported.filter(field => !populated.some(key => this.displaysField(field, key)))
+      : [];
+    const categoryMatches = template.category === type;
+
+    return {
+      template_id: template.id,
+      category_matches: categoryMatches,
+      compatible: categoryMatches && unsupportedFields.length === 0,
+      unsupported_fields: unsupportedFields,
+      missing_fields: missingFields
+    };
+  }
+
+  private static async adjustUsage(templateId: string, delta: number): Promise<void> {
+    try {
+      // Done in the database so concurrent changes don't overwrite each other.
+      // A lost adjustment is corrected when the scheduler recounts usage.
+      const { error } = await supabase
+        .rpc('adjust_template_usage', {
+          p_template_id: templateId,
+          p_delta: delta
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating template usage:', error);
+      // Don't throw error for analytics
+    }
+  }
+
+  /**
+   * A supported field displays a form_data key it names exactly or names one word of
+   * ("venue" covers venueName and venueAddress, "parents" covers groomParents)
+   */
+  private static displaysField(field: string, key: string): boolean {
+    if (field === key) return true;
+
+    return key
+      .split(/(?=[A-Z])/)
+      .map(word => word.toLowerCase())
+      .includes(field.toLowerCase());
+  }
+
+  /**
+   * Whether a form value is content a template would show; switched-off options (false) are not
+   */
+  private static isPopulated(value: unknown): boolean {
+    if (value === null || value === undefined || value === false) return false;
+    if (typeof value === 'string') return value.trim() !== '';
+    if (Array.isArray(value)) return value.some(item => this.isPopulated(item));
+    if (typeof value === 'object') return Object.values(value).some(item => this.isPopulated(item));
+    return true;
+  }
 }
@@ -0,0 +1,126 @@
+import { supabase } from '../utils/supabase';
+import { InvitationService } from './InvitationService';
+import { TemplateService } from './TemplateService';
+import { Invitation, Template, TemplateVersion, TemplateUpgradePreview } from '../types/invitation';
+
+export class TemplateVersionService {
+  private static readonly TABLE_NAME = 'template_versions';
+
+  /**
+   * Get one version of a template
+   */
+  static async getVersion(templateId: string, version: number): Promise<TemplateVersion | null> {
+    try {
+      const { data, error } = await supabase
+        .from(this.TABLE_NAME)
+        .select('*')
+        .eq('template_id', templateId)
+        .eq('version', version)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') return null; // Not found
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error fetching template version:', error);
+      throw new Error('Failed to fetch template version');
+    }
+  }
+
+  /**
+   * The rendered parts of a template at the version an invitation is pinned to
+   */
+  static async resolve(
+    template: Template,
+    version: number | null
+  ): Promise<Pick<Template, 'template_data' | 'default_config' | 'supported_fields'>> {
+    if (version === null || version === template.current_version) return template;
+
+    // Falls back to the latest version if the pinned one is gone
+    return (await this.getVersion(template.id, version)) || template;
+  }
+
+  /**
+   * Compare the template version an invitation is pinned to with the latest one.
+   * Drafts are not pinned and always follow the latest version.
+   */
+  static async previewUpgrade(invitationId: string, userId: string): Promise<TemplateUpgradePreview> {
+    const { invitation, template } = await this.getInvitationTemplate(invitationId, userId);
+
+    const pinned = invitation.template_version;
+    const upgradeAvailable = pinned !== null && pinned < template.current_version;
+
+    const fromFields = upgradeAvailable
+      ? (await this.resolve(template, pinned)).supported_fields || []
+      : template.supported_fields || [];
+    const toFields = template.supported_fields || [];
+
+    return {
+      template_id: template.id,
+      current_version: pinned,
+      latest_version: template.current_version,
+      upgrade_available: upgradeAvailable,
+      supported_fields: {
+        added: toFields.filter(field => !fromFields.includes(field)),
+        removed: fromFields.filter(field => !toFields.includes(field))
+      }
+    };
+  }
+
+  /**
+   * Pin an invitation to the latest version of its template.
+   * With expectedVersion, the upgrade is refused if the template changed since it was previewed.
+   */
+  static async upgrade(invitationId: string, userId: string, expectedVersion?: number): Promise<Invitation> {
+    const { invitation, template } = await this.getInvitationTemplate(invitationId, userId);
+
+    if (expectedVersion !== undefined && expectedVersion !== template.current_version) {
+      throw new Error('Template changed since the preview');
+    }
+
+    if (invitation.template_version === null || invitation.template_version >= template.current_version) {
+      return invitation;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('invitations')
+        .update({
+          template_version: template.current_version,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', invitationId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') throw new Error('Invitation not found');
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Invitation not found') throw error;
+      console.error('Error upgrading invitation template:', error);
+      throw new Error('Failed to upgrade invitation template');
+    }
+  }
+
+  private static async getInvitationTemplate(
+    invitationId: string,
+    userId: string
+  ): Promise<{ invitation: Invitation; template: Template }> {
+    const invitation = await InvitationService.getById(invitationId, userId);
+    if (!invitation) throw new Error('Invitation not found');
+    if (!invitation.template_id) throw new Error('Invitation has no template');
+
+    const template = await TemplateService.getByIdIncludingInactive(invitation.template_id);
+    if (!template) throw new Error('Template not found');
+
+    return { invitation, template };
+  }
+}
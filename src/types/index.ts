@@ -24,10 +24,16 @@ export interface Reseller {
 export interface Plan {
   id: string;
   name: string;
+  description: string | null;
   type: 'FREE' | 'PREMIUM';
   price: number;
   invite_type: 'WEDDING' | 'BIRTHDAY' | 'PARTY' | 'CORPORATE' | 'OTHER';
+  features: Record<string, any> | null;
+  max_invites: number | null; // -1 for unlimited
+  max_templates: number | null; // -1 for unlimited
+  is_active: boolean;
   created_at: Date;
+  updated_at: Date;
 }
 
 export interface Template {
@@ -96,6 +102,21 @@ export interface UpdateResellerRequest {
   custom_domain?: string;
 }
 
+export interface CreatePlanRequest {
+  name: string;
+  description?: string | null;
+  type: 'FREE' | 'PREMIUM';
+  price: number;
+  invite_type: 'WEDDING' | 'BIRTHDAY' | 'PARTY' | 'CORPORATE' | 'OTHER';
+  features?: Record<string, any> | null;
+  max_invites?: number | null;
+  max_templates?: number | null;
+}
+
+export interface UpdatePlanRequest extends Partial<CreatePlanRequest> {
+  is_active?: boolean;
+}
+
 export interface StatsResponse {
   totalUsers: number;
   totalInvites: number;
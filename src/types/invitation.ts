@@ -28,6 +28,37 @@ export enum TemplateStyle {
   TROPICAL = 'tropical'
 }
 
+export enum AnalyticsEventType {
+  VIEW = 'view',
+  SHARE = 'share',
+  MAP_CLICK = 'map_click',
+  MUSIC_PLAY = 'music_play',
+  GALLERY_OPEN = 'gallery_open',
+  RSVP = 'rsvp'
+}
+
+export enum ActivityType {
+  INVITATION_CREATED = 'invitation_created',
+  INVITATION_PUBLISHED = 'invitation_published',
+  INVITATION_SCHEDULED = 'invitation_scheduled',
+  INVITATION_SCHEDULE_FAILED = 'invitation_schedule_failed',
+  GUEST_RSVP = 'guest_rsvp',
+  GUEST_DECLINED = 'guest_declined',
+  INVITATION_EXPIRED = 'invitation_expired'
+}
+
+export enum MediaType {
+  HERO_IMAGE = 'hero_image',
+  GALLERY = 'gallery',
+  BACKGROUND_MUSIC = 'background_music'
+}
+
+export enum InvitationAccessMode {
+  PUBLIC = 'public',
+  PASSWORD = 'password',
+  GUEST_LIST = 'guest_list'
+}
+
 export enum GuestResponse {
   PENDING = 'pending',
   ATTENDING = 'attending',
@@ -61,8 +92,25 @@ export interface Template extends BaseEntity {
   tags: string[] | null
   is_active: boolean
   created_by: string | null
+  current_version: number
+}
+
+// Immutable snapshot of what a template renders
+export interface TemplateVersion {
+  id: string
+  template_id: string
+  version: number
+  template_data: Record<string, any>
+  default_config: Record<string, any> | null
+  supported_fields: string[] | null
+  created_at: string
 }
 
+export type CreateTemplateRequest = Pick<Template, 'name' | 'category' | 'style' | 'template_data' | 'is_premium' | 'price'>
+  & Partial<Pick<Template, 'description' | 'thumbnail_url' | 'preview_url' | 'default_config' | 'supported_fields' | 'features' | 'tags'>>
+
+export type UpdateTemplateRequest = Partial<CreateTemplateRequest & Pick<Template, 'is_active'>>
+
 // Dynamic form data structures for different invitation types
 export interface WeddingFormData {
   groomName: string
@@ -193,6 +241,55 @@ export interface BusinessFormData {
   requiresApproval: boolean
 }
 
+export interface AnniversaryFormData {
+  partnerOneName: string
+  partnerTwoName: string
+  years: number
+  weddingDate?: string
+  couplePhoto?: string
+  eventDate: string
+  eventTime: string
+  venueName: string
+  venueAddress: string
+  story?: string
+  message?: string
+  hashtag?: string
+  dresscode?: string
+  timeline?: Array<{
+    time: string
+    title: string
+    description: string
+  }>
+  giftRegistryEnabled: boolean
+  bankAccount?: {
+    bankName: string
+    accountNumber: string
+    accountName: string
+  }
+  rsvpEnabled: boolean
+}
+
+export interface PartyFormData {
+  partyTitle: string
+  hostName: string
+  occasion?: string
+  partyDate: string
+  partyTime: string
+  endTime?: string
+  venueName: string
+  venueAddress: string
+  theme?: string
+  dresscode?: string
+  message?: string
+  hashtag?: string
+  activities?: Array<{
+    time: string
+    activity: string
+    location: string
+  }>
+  rsvpEnabled: boolean
+}
+
 // Union type for all form data types
 export type InvitationFormData = 
   | WeddingFormData 
@@ -200,6 +297,8 @@ export type InvitationFormData =
   | GraduationFormData 
   | BabyShowerFormData 
   | BusinessFormData
+  | AnniversaryFormData
+  | PartyFormData
 
 // Template customization interface
 export interface TemplateCustomization {
@@ -233,6 +332,8 @@ export interface TemplateCustomization {
 export interface Invitation extends BaseEntity {
   user_id: string
   template_id: string | null
+  // Pinned at publish; null follows the latest template version
+  template_version: number | null
   title: string
   type: InvitationType
   status: InvitationStatus
@@ -244,6 +345,7 @@ export interface Invitation extends BaseEntity {
   slug: string | null
   is_published: boolean
   published_at: string | null
+  publish_at: string | null
   expires_at: string | null
   rsvp_enabled: boolean
   rsvp_deadline: string | null
@@ -256,6 +358,11 @@ export interface Invitation extends BaseEntity {
   meta_title: string | null
   meta_description: string | null
   og_image_url: string | null
+  access_mode: InvitationAccessMode
+  // Changing the access settings invalidates previously issued access cookies
+  access_updated_at: string | null
+  // Bumped by the database whenever the editable content changes; the ETag of edits
+  content_version: number
 }
 
 // Guest interface
@@ -274,6 +381,8 @@ export interface InvitationGuest extends BaseEntity {
   last_reminder_sent_at: string | null
   email_notifications: boolean
   sms_notifications: boolean
+  is_approved: boolean
+  access_token: string
 }
 
 // Analytics interface
@@ -284,11 +393,36 @@ export interface InvitationAnalytics extends BaseEntity {
   session_id: string | null
   user_agent: string | null
   ip_address: string | null
+  ip_hash: string | null
   referrer: string | null
   country: string | null
   city: string | null
 }
 
+// Activity log interface
+export interface InvitationActivity {
+  id: string
+  user_id: string
+  invitation_id: string | null
+  activity_type: ActivityType
+  message: string
+  metadata: Record<string, any> | null
+  created_at: string
+}
+
+// Revision snapshot of an invitation's editable content
+export interface InvitationRevision {
+  id: string
+  invitation_id: string
+  revision_number: number
+  title: string
+  form_data: InvitationFormData
+  template_customization: TemplateCustomization | null
+  source: 'update' | 'restore'
+  created_by: string | null
+  created_at: string
+}
+
 // Media interface
 export interface InvitationMedia extends BaseEntity {
   invitation_id: string
@@ -305,27 +439,82 @@ export interface InvitationMedia extends BaseEntity {
   compressed_path: string | null
 }
 
+// Media with resolved public URLs
+export interface InvitationMediaResponse extends InvitationMedia {
+  url: string
+  thumbnail_url: string | null
+  compressed_url: string | null
+}
+
 // API request/response types
 export interface CreateInvitationRequest {
   title: string
   type: InvitationType
   template_id?: string
   form_data: Partial<InvitationFormData>
+  // Vanity slug; generated from the form data when omitted
+  slug?: string
 }
 
 export interface UpdateInvitationRequest {
   title?: string
   form_data?: Partial<InvitationFormData>
   template_customization?: TemplateCustomization
-  status?: InvitationStatus
+  // Switch template; it must be made for the invitation type
+  template_id?: string
+  // content_version being edited; the update is rejected if the content changed since
+  expected_version?: number
 }
 
+// RFC 6902 JSON Patch operation; paths are JSON Pointers into form_data
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: any }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string }
+
 export interface PublishInvitationRequest {
+  // Schedule the publish instead of publishing right away
+  publish_at?: string
   expires_at?: string
   meta_title?: string
   meta_description?: string
 }
 
+// Guest-safe projection of a published invitation
+export type PublicInvitation = Pick<
+  Invitation,
+  | 'id'
+  | 'slug'
+  | 'title'
+  | 'type'
+  | 'status'
+  | 'form_data'
+  | 'event_date'
+  | 'venue_name'
+  | 'venue_address'
+  | 'published_at'
+  | 'expires_at'
+  | 'rsvp_enabled'
+  | 'rsvp_deadline'
+  | 'require_approval'
+  | 'meta_title'
+  | 'meta_description'
+  | 'og_image_url'
+>
+
+// What a guest sees about themselves when opening a personalized link
+export type PublicGuest = Pick<
+  InvitationGuest,
+  'id' | 'name' | 'response' | 'response_data' | 'plus_ones_count' | 'plus_ones_details' | 'is_approved'
+>
+
+export interface InvitationRenderPayload {
+  invitation: PublicInvitation
+  guest: PublicGuest | null
+  template: Pick<Template, 'id' | 'name' | 'category' | 'style' | 'template_data' | 'features'> | null
+  config: Record<string, any>
+}
+
 export interface InvitationListResponse {
   invitations: Invitation[]
   total: number
@@ -342,35 +531,180 @@ export interface TemplateListResponse {
   has_more: boolean
 }
 
+export interface CreateGuestRequest {
+  name: string
+  email?: string | null
+  phone?: string | null
+  response?: GuestResponse
+  response_data?: Record<string, any> | null
+  plus_ones_count?: number
+  plus_ones_details?: Record<string, any> | null
+  email_notifications?: boolean
+  sms_notifications?: boolean
+  is_approved?: boolean
+}
+
+export type UpdateGuestRequest = Partial<CreateGuestRequest>
+
+export interface SubmitRsvpRequest {
+  guest_token?: string
+  name?: string
+  email?: string | null
+  phone?: string | null
+  response: GuestResponse
+  response_data?: Record<string, any> | null
+  plus_ones_count?: number
+  plus_ones_details?: Record<string, any> | null
+}
+
+export interface UpdateInvitationAccessRequest {
+  access_mode: InvitationAccessMode
+  // Required when enabling password mode without a stored password
+  password?: string
+}
+
+// Either credential unlocks a private invitation
+export interface InvitationAccessRequest {
+  password?: string
+  guest_token?: string
+}
+
+export interface TrackEventRequest {
+  event_type: AnalyticsEventType
+  session_id?: string
+  referrer?: string
+  event_data?: Record<string, any>
+}
+
+export interface GuestListFilters {
+  page?: number
+  limit?: number
+  response?: GuestResponse
+  search?: string
+  opened?: boolean
+}
+
+export interface GuestListResponse {
+  guests: InvitationGuest[]
+  total: number
+  page: number
+  limit: number
+  has_more: boolean
+}
+
+export type DeviceType = 'mobile' | 'tablet' | 'desktop' | 'bot' | 'unknown'
+
+export interface AnalyticsDateRange {
+  from: string
+  to: string
+}
+
+export interface InvitationAnalyticsResponse {
+  range: AnalyticsDateRange
+  totals: {
+    views: number
+    unique_views: number
+  }
+  daily: Array<{
+    date: string
+    views: number
+    unique_views: number
+  }>
+  referrers: Array<{
+    source: string
+    count: number
+  }>
+  devices: Array<{
+    device: DeviceType
+    count: number
+  }>
+  funnel: {
+    viewed: number
+    opened: number
+    responded: number
+    attending: number
+  }
+}
+
+export interface TemplateUpgradePreview {
+  template_id: string
+  current_version: number | null
+  latest_version: number
+  upgrade_available: boolean
+  supported_fields: {
+    added: string[]
+    removed: string[]
+  }
+}
+
+// How well a template fits the form data of an invitation
+export interface TemplateCompatibilityReport {
+  template_id: string
+  category_matches: boolean
+  // Category matches and every populated field is displayed
+  compatible: boolean
+  // Populated form_data fields the template won't display
+  unsupported_fields: string[]
+  // Fields the template displays that are empty
+  missing_fields: string[]
+}
+
 export interface InvitationStatsResponse {
   total_invitations: number
   published_invitations: number
   draft_invitations: number
   total_views: number
   total_rsvps: number
-  recent_activity: Array<{
-    type: string
-    message: string
-    timestamp: string
-  }>
+  recent_activity: ActivityFeedItem[]
+}
+
+export interface ActivityFeedItem {
+  type: string
+  message: string
+  timestamp: string
+  invitation_id?: string | null
+}
+
+export interface ActivityListResponse {
+  activities: ActivityFeedItem[]
+  total: number
+  page: number
+  limit: number
+  has_more: boolean
 }
 
 // Form validation schemas
 export interface FormFieldConfig {
-  type: 'text' | 'email' | 'tel' | 'date' | 'time' | 'textarea' | 'select' | 'checkbox' | 'file'
+  type: 'text' | 'email' | 'tel' | 'url' | 'number' | 'date' | 'time' | 'textarea' | 'select' | 'checkbox' | 'file' | 'list'
   label: string
   placeholder?: string
   required: boolean
   validation?: {
     minLength?: number
     maxLength?: number
+    min?: number
+    max?: number
     pattern?: string
     options?: string[]
+    minItems?: number
+    maxItems?: number
   }
+  // Only shown (and required) while another field has the given value
   dependency?: {
     field: string
     value: any
   }
+  // Fields of each entry of a 'list' field; lists without it hold plain text entries
+  itemFields?: Record<string, FormFieldConfig>
+}
+
+// Cross-field checks of a step, enforced on publish
+export interface FormStepRule {
+  rule: 'dateNotPast' | 'dateNotBefore' | 'timeAfter'
+  field: string
+  // Other field the rule compares against
+  compareTo?: string
+  message: string
 }
 
 export interface FormStepConfig {
@@ -378,8 +712,9 @@ export interface FormStepConfig {
   title: string
   description: string
   icon: string
+  // Keys are form_data paths, e.g. "bankAccount.bankName"
   fields: Record<string, FormFieldConfig>
-  validation: (data: any) => boolean
+  rules: FormStepRule[]
 }
 
 export interface InvitationTypeConfig {
@@ -391,6 +726,28 @@ export interface InvitationTypeConfig {
   previewComponent: string
 }
 
+export type InvitationTypeSummary = Pick<InvitationTypeConfig, 'type' | 'name' | 'description' | 'previewComponent'> & {
+  step_count: number
+}
+
+// Publish readiness checklist
+export type ReadinessCheckStatus = 'passed' | 'blocking' | 'advisory'
+
+export interface ReadinessCheck {
+  id: string
+  label: string
+  status: ReadinessCheckStatus
+  message: string | null
+  details?: ValidationError[]
+}
+
+export interface InvitationReadiness {
+  ready: boolean
+  blocking_count: number
+  advisory_count: number
+  checks: ReadinessCheck[]
+}
+
 // Error types
 export interface ApiError {
   message: string
@@ -402,3 +759,46 @@ export interface ValidationError extends ApiError {
   field: string
   value: any
 }
+
+export interface UploadMediaRequest {
+  media_type: MediaType
+  alt_text?: string
+}
+
+export interface SchedulerRunResult {
+  published: number
+  skipped: number
+  expired: number
+  // Templates whose popularity_score changed
+  rescored: number
+}
+
+export interface RevisionListResponse {
+  revisions: Array<Omit<InvitationRevision, 'form_data' | 'template_customization'>>
+  total: number
+  page: number
+  limit: number
+  has_more: boolean
+}
+
+export interface ObjectChange {
+  path: string
+  type: 'added' | 'removed' | 'changed'
+  from?: any
+  to?: any
+}
+
+export interface RevisionDiffResponse {
+  from: number
+  // null when compared against the current invitation
+  to: number | null
+  changes: ObjectChange[]
+}
+
+export interface SlugAvailabilityResponse {
+  // Normalized form of the requested slug
+  slug: string
+  available: boolean
+  reason: 'invalid' | 'reserved' | 'taken' | null
+  message: string | null
+}
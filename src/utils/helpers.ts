@@ -1,4 +1,5 @@
 import { ApiResponse } from '../types';
+import { ObjectChange } from '../types/invitation';
 
 /**
  * Create standardized API response
@@ -67,11 +68,14 @@ export function generateReferralCode(length: number = 8): string {
  */
 export function generateSlug(text: string): string {
   return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip accents so "José" becomes "jose"
     .toLowerCase()
     .trim()
-    .replace(/[^a-z0-9 -]/g, '') // Remove invalid chars
-    .replace(/\s+/g, '-') // Replace spaces with hyphens
-    .replace(/-+/g, '-'); // Replace multiple hyphens with single hyphen
+    .replace(/[\s_]+/g, '-') // Replace spaces and underscores with hyphens
+    .replace(/[^a-z0-9-]/g, '') // Remove invalid chars
+    .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
+    .replace(/^-|-$/g, ''); // Trim hyphens
 }
 
 /**
@@ -91,3 +95,76 @@ export function parsePaginationQuery(query: any): { page: number; limit: number
   
   return { page, limit };
 }
+
+/**
+ * Quoted ilike pattern matching values that contain the search text literally;
+ * safe to embed in a PostgREST or() filter, where commas and parentheses are syntax
+ */
+export function containsPattern(search: string): string {
+  const literal = search.replace(/[\\%_]/g, '\\$&');
+  return `"%${literal.replace(/[\\"]/g, '\\$&')}%"`;
+}
+
+/**
+ * Check whether a value is a plain object (not an array, date or null)
+ */
+export function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Recursively merge plain objects; arrays and primitives from the source replace the target
+ */
+export function deepMerge<T extends Record<string, any>>(target: T, source: Record<string, any>): T {
+  const result: Record<string, any> = { ...target };
+
+  for (const [key, value] of Object.entries(source)) {
+    if (value === undefined) continue;
+
+    result[key] = isPlainObject(value) && isPlainObject(result[key])
+      ? deepMerge(result[key], value)
+      : value;
+  }
+
+  return result as T;
+}
+
+/**
+ * Apply an RFC 7396 JSON Merge Patch: null removes a key, plain objects merge recursively,
+ * anything else replaces the target value
+ */
+export function mergePatch<T extends Record<string, any>>(target: T, patch: Record<string, any>): T {
+  const result: Record<string, any> = isPlainObject(target) ? { ...target } : {};
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) continue;
+
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = isPlainObject(value) ? mergePatch(result[key], value) : value;
+    }
+  }
+
+  return result as T;
+}
+
+/**
+ * List the differences between two values by dot path; arrays are compared as whole values
+ */
+export function diffObjects(from: unknown, to: unknown, path: string = ''): ObjectChange[] {
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const keys = Array.from(new Set([...Object.keys(from), ...Object.keys(to)])).sort();
+
+    return keys.flatMap(key => {
+      const childPath = path ? `${path}.${key}` : key;
+      if (!(key in from)) return [{ path: childPath, type: 'added' as const, to: to[key] }];
+      if (!(key in to)) return [{ path: childPath, type: 'removed' as const, from: from[key] }];
+      return diffObjects(from[key], to[key], childPath);
+    });
+  }
+
+  return JSON.stringify(from) === JSON.stringify(to)
+    ? []
+    : [{ path, type: 'changed', from, to }];
+}
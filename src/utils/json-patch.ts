@@ -0,0 +1,139 @@
+import { JsonPatchOperation } from '../types/invitation';
+
+// Keys that would reach Object.prototype through a pointer
+const FORBIDDEN_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Thrown when a patch cannot be applied to the document
+ */
+export class JsonPatchError extends Error {
+  constructor(message: string, public readonly operationIndex: number) {
+    super(message);
+    this.name = 'JsonPatchError';
+  }
+}
+
+/**
+ * Apply RFC 6902 operations to a copy of a JSON document.
+ * Operations are atomic: the original document is left untouched when any of them fails.
+ */
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+  let result: any = JSON.parse(JSON.stringify(document ?? null));
+
+  operations.forEach((operation, index) => {
+    const fail = (message: string): never => {
+      throw new JsonPatchError(`Operation ${index} (${operation.op} ${operation.path}): ${message}`, index);
+    };
+
+    const tokens = parsePointer(operation.path, fail);
+
+    switch (operation.op) {
+      case 'add':
+        result = add(result, tokens, clone(operation.value), fail);
+        break;
+      case 'remove':
+        result = remove(result, tokens, fail);
+        break;
+      case 'replace':
+        result = replace(result, tokens, clone(operation.value), fail);
+        break;
+      case 'move': {
+        const from = parsePointer(operation.from, fail);
+        if (operation.path.startsWith(`${operation.from}/`)) fail('cannot move a value into itself');
+        const value = get(result, from, fail);
+        result = add(remove(result, from, fail), tokens, value, fail);
+        break;
+      }
+      case 'copy': {
+        const value = get(result, parsePointer(operation.from, fail), fail);
+        result = add(result, tokens, clone(value), fail);
+        break;
+      }
+      case 'test':
+        if (JSON.stringify(get(result, tokens, fail)) !== JSON.stringify(operation.value)) fail('test failed');
+        break;
+    }
+  });
+
+  return result;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function parsePointer(pointer: string, fail: (message: string) => never): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) fail('path must start with "/"');
+
+  const tokens = pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+  if (tokens.some(token => FORBIDDEN_KEYS.includes(token))) fail('path is not allowed');
+
+  return tokens;
+}
+
+function arrayIndex(container: any[], token: string, allowEnd: boolean, fail: (message: string) => never): number {
+  if (allowEnd && token === '-') return container.length;
+  if (!/^(0|[1-9]\d*)$/.test(token)) fail(`invalid array index "${token}"`);
+
+  const index = parseInt(token);
+  if (index > container.length || (!allowEnd && index === container.length)) fail(`array index ${index} is out of bounds`);
+
+  return index;
+}
+
+function get(document: any, tokens: string[], fail: (message: string) => never): any {
+  return tokens.reduce((node, token) => {
+    if (Array.isArray(node)) return node[arrayIndex(node, token, false, fail)];
+    if (node === null || typeof node !== 'object' || !Object.prototype.hasOwnProperty.call(node, token)) fail('path does not exist');
+    return node[token];
+  }, document);
+}
+
+/**
+ * Resolve the container holding the last token of a path
+ */
+function parentOf(document: any, tokens: string[], fail: (message: string) => never): any {
+  const parent = get(document, tokens.slice(0, -1), fail);
+  if (parent === null || typeof parent !== 'object') fail('parent path is not an object or array');
+  return parent;
+}
+
+function add(document: any, tokens: string[], value: any, fail: (message: string) => never): any {
+  if (tokens.length === 0) return value;
+
+  const parent = parentOf(document, tokens, fail);
+  const key = tokens[tokens.length - 1];
+
+  if (Array.isArray(parent)) parent.splice(arrayIndex(parent, key, true, fail), 0, value);
+  else parent[key] = value;
+
+  return document;
+}
+
+function replace(document: any, tokens: string[], value: any, fail: (message: string) => never): any {
+  get(document, tokens, fail);
+  if (tokens.length === 0) return value;
+
+  const parent = parentOf(document, tokens, fail);
+  const key = tokens[tokens.length - 1];
+  parent[Array.isArray(parent) ? arrayIndex(parent, key, false, fail) : key] = value;
+
+  return document;
+}
+
+function remove(document: any, tokens: string[], fail: (message: string) => never): any {
+  if (tokens.length === 0) return null;
+
+  const parent = parentOf(document, tokens, fail);
+  const key = tokens[tokens.length - 1];
+
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, false, fail), 1);
+  } else {
+    if (!Object.prototype.hasOwnProperty.call(parent, key)) fail('path does not exist');
+    delete parent[key];
+  }
+
+  return document;
+}
@@ -0,0 +1,38 @@
+import sharp from 'sharp';
+
+/**
+ * Detect the MIME type of an uploaded file from its content, ignoring what the client claims.
+ * Images are recognized by sharp, audio by the container signature. Returns null when unknown.
+ */
+export async function detectMimeType(content: Buffer, fileType: 'image' | 'audio'): Promise<string | null> {
+  return fileType === 'image' ? detectImageType(content) : detectAudioType(content);
+}
+
+async function detectImageType(content: Buffer): Promise<string | null> {
+  try {
+    const { format } = await sharp(content).metadata();
+    if (format === 'jpeg' || format === 'png' || format === 'webp') return `image/${format}`;
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+function detectAudioType(content: Buffer): string | null {
+  const ascii = (start: number, end: number) => content.toString('latin1', start, end);
+
+  if (content.length < 12) return null;
+  if (ascii(0, 4) === 'OggS') return 'audio/ogg';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') return 'audio/wav';
+  if (ascii(4, 8) === 'ftyp') return 'audio/mp4';
+  if (ascii(0, 3) === 'ID3') return 'audio/mpeg';
+
+  // MPEG frame sync: 11 set bits, then the layer tells MP3 (layers I-III) from ADTS AAC (layer 0)
+  if (content[0] === 0xff && (content[1] & 0xe0) === 0xe0) {
+    const layer = (content[1] >> 1) & 0x03;
+    if (layer === 0 && (content[1] & 0xf0) === 0xf0) return 'audio/aac';
+    if (layer !== 0) return 'audio/mpeg';
+  }
+
+  return null;
+}
@@ -0,0 +1,82 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { supabase } from './supabase';
+
+/**
+ * Where uploaded media files live. Paths are relative keys such as
+ * "<invitationId>/gallery/<file>.webp" and are stored as-is in invitation_media.
+ */
+export interface StorageBackend {
+  upload(filePath: string, content: Buffer, contentType: string): Promise<void>
+  remove(filePaths: string[]): Promise<void>
+  getPublicUrl(filePath: string): string
+}
+
+/**
+ * Supabase Storage bucket (production)
+ */
+class SupabaseStorageBackend implements StorageBackend {
+  constructor(private readonly bucket: string) {}
+
+  async upload(filePath: string, content: Buffer, contentType: string): Promise<void> {
+    const { error } = await supabase.storage
+      .from(this.bucket)
+      .upload(filePath, content, { contentType, upsert: false });
+
+    if (error) throw error;
+  }
+
+  async remove(filePaths: string[]): Promise<void> {
+    if (filePaths.length === 0) return;
+
+    const { error } = await supabase.storage
+      .from(this.bucket)
+      .remove(filePaths);
+
+    if (error) throw error;
+  }
+
+  getPublicUrl(filePath: string): string {
+    return supabase.storage.from(this.bucket).getPublicUrl(filePath).data.publicUrl;
+  }
+}
+
+/**
+ * Local disk, served by the app under /uploads (development)
+ */
+class LocalStorageBackend implements StorageBackend {
+  constructor(private readonly rootDir: string, private readonly publicBaseUrl: string) {}
+
+  async upload(filePath: string, content: Buffer): Promise<void> {
+    const target = this.resolve(filePath);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(target, content);
+  }
+
+  async remove(filePaths: string[]): Promise<void> {
+    await Promise.all(filePaths.map(filePath => fs.promises.rm(this.resolve(filePath), { force: true })));
+  }
+
+  getPublicUrl(filePath: string): string {
+    return `${this.publicBaseUrl.replace(/\/$/, '')}/${filePath}`;
+  }
+
+  /**
+   * Keep every key inside the storage root
+   */
+  private resolve(filePath: string): string {
+    const root = path.resolve(this.rootDir);
+    const target = path.resolve(root, filePath);
+
+    if (!target.startsWith(root + path.sep)) {
+      throw new Error('Invalid storage path');
+    }
+
+    return target;
+  }
+}
+
+export const storage: StorageBackend = config.storage.driver === 'local'
+  ? new LocalStorageBackend(config.storage.localDir, config.storage.publicBaseUrl)
+  : new SupabaseStorageBackend(config.storage.bucket);
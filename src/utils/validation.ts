@@ -1,144 +1,385 @@
-import { z } from 'zod';
+import { z, ZodError } from 'zod';
 import { 
   InvitationType, 
+  InvitationStatus,
+  GuestResponse,
+  AnalyticsEventType,
+  TemplateStyle,
+  MediaType,
+  InvitationAccessMode,
   InvitationFormData,
-  WeddingFormData,
-  BirthdayFormData,
-  GraduationFormData,
-  BabyShowerFormData,
-  BusinessFormData
+  InvitationTypeConfig,
+  FormFieldConfig,
+  FormStepRule,
+  ValidationError
 } from '../types/invitation';
+import { INVITATION_TYPE_CONFIGS } from '../config/invitation-types';
+
+export type FormValidationMode = 'draft' | 'publish';
 
 export interface ValidationResult {
   isValid: boolean;
-  errors: string[];
-}
-
-export function validateInvitationData(
-  type: InvitationType, 
-  data: Partial<InvitationFormData>
-): ValidationResult {
-  const errors: string[] = [];
-
-  switch (type) {
-    case InvitationType.WEDDING:
-      return validateWeddingData(data as Partial<WeddingFormData>);
-    case InvitationType.BIRTHDAY:
-      return validateBirthdayData(data as Partial<BirthdayFormData>);
-    case InvitationType.GRADUATION:
-      return validateGraduationData(data as Partial<GraduationFormData>);
-    case InvitationType.BABY_SHOWER:
-      return validateBabyShowerData(data as Partial<BabyShowerFormData>);
-    case InvitationType.BUSINESS:
-      return validateBusinessData(data as Partial<BusinessFormData>);
-    default:
-      errors.push('Invalid invitation type');
-  }
-
-  return { isValid: errors.length === 0, errors };
+  errors: ValidationError[];
 }
 
-function validateWeddingData(data: Partial<WeddingFormData>): ValidationResult {
-  const errors: string[] = [];
+// Shared field schemas for invitation form data
+const requiredText = (label: string) => z.string().trim().min(1, `${label} is required`);
+const dateString = (label: string) => z.string().refine(isValidDate, `Invalid ${label}`);
+const timeString = (label: string) => z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, `${label} must be in HH:MM format`);
 
-  // Basic validation - only check if data is provided
-  if (data.groomName && typeof data.groomName !== 'string') {
-    errors.push('Groom name must be a string');
-  }
-  
-  if (data.brideName && typeof data.brideName !== 'string') {
-    errors.push('Bride name must be a string');
-  }
+const bankAccountSchema = z.object({
+  bankName: requiredText('Bank name'),
+  accountNumber: requiredText('Account number'),
+  accountName: requiredText('Account name'),
+});
 
-  if (data.eventDate && !isValidDate(data.eventDate)) {
-    errors.push('Invalid event date');
-  }
+const backgroundMusicSchema = z.object({
+  enabled: z.boolean(),
+  url: z.string().url('Invalid music URL').optional(),
+  title: z.string().optional(),
+  artist: z.string().optional(),
+  autoplay: z.boolean(),
+  volume: z.number().min(0).max(100),
+});
 
-  if (data.venueName && typeof data.venueName !== 'string') {
-    errors.push('Venue name must be a string');
-  }
+export const weddingFormSchema = z.object({
+  groomName: requiredText('Groom name'),
+  brideName: requiredText('Bride name'),
+  groomParents: z.array(z.string()).optional(),
+  brideParents: z.array(z.string()).optional(),
+  eventDate: dateString('event date'),
+  ceremonyTime: timeString('Ceremony time'),
+  receptionTime: timeString('Reception time').optional(),
+  venueName: requiredText('Venue name'),
+  venueAddress: requiredText('Venue address'),
+  story: z.string().optional(),
+  message: z.string().optional(),
+  hashtag: z.string().optional(),
+  dresscode: z.string().optional(),
+  timeline: z.array(z.object({
+    time: timeString('Timeline time'),
+    title: requiredText('Timeline title'),
+    description: z.string(),
+    location: z.string(),
+  })),
+  rsvpEnabled: z.boolean(),
+  giftRegistryEnabled: z.boolean(),
+  bankAccount: bankAccountSchema.optional(),
+  backgroundMusic: backgroundMusicSchema.optional(),
+});
 
-  return { isValid: errors.length === 0, errors };
-}
+export const birthdayFormSchema = z.object({
+  celebrantName: requiredText('Celebrant name'),
+  age: z.number().int('Age must be a whole number').min(0, 'Age must be a positive number'),
+  celebrantPhoto: z.string().url('Invalid photo URL').optional(),
+  partyDate: dateString('party date'),
+  partyTime: timeString('Party time'),
+  venueName: requiredText('Venue name'),
+  venueAddress: requiredText('Venue address'),
+  theme: z.string().optional(),
+  dresscode: z.string().optional(),
+  message: z.string().optional(),
+  hashtag: z.string().optional(),
+  activities: z.array(z.object({
+    time: timeString('Activity time'),
+    activity: requiredText('Activity'),
+    location: z.string(),
+  })),
+  giftRegistry: z.object({
+    enabled: z.boolean(),
+    wishlistUrl: z.string().url('Invalid wishlist URL').optional(),
+    preferences: z.string().optional(),
+  }).optional(),
+  rsvpEnabled: z.boolean(),
+});
 
-function validateBirthdayData(data: Partial<BirthdayFormData>): ValidationResult {
-  const errors: string[] = [];
+export const graduationFormSchema = z.object({
+  graduateName: requiredText('Graduate name'),
+  degree: requiredText('Degree'),
+  school: requiredText('School'),
+  graduationDate: dateString('graduation date'),
+  ceremonyTime: timeString('Ceremony time'),
+  venueName: requiredText('Venue name'),
+  venueAddress: requiredText('Venue address'),
+  achievements: z.array(z.string()).optional(),
+  message: z.string().optional(),
+  hashtag: z.string().optional(),
+  receptionDetails: z.object({
+    date: dateString('reception date'),
+    time: timeString('Reception time'),
+    venue: requiredText('Reception venue'),
+    address: requiredText('Reception address'),
+  }).optional(),
+  rsvpEnabled: z.boolean(),
+});
 
-  if (data.celebrantName && typeof data.celebrantName !== 'string') {
-    errors.push('Celebrant name must be a string');
-  }
+export const babyShowerFormSchema = z.object({
+  parentNames: z.array(requiredText('Parent name')).min(1, 'At least one parent name is required'),
+  babyName: z.string().optional(),
+  dueDate: dateString('due date'),
+  gender: z.enum(['boy', 'girl', 'surprise'], {
+    errorMap: () => ({ message: 'Gender must be "boy", "girl", or "surprise"' })
+  }).optional(),
+  partyDate: dateString('party date'),
+  partyTime: timeString('Party time'),
+  venueName: requiredText('Venue name'),
+  venueAddress: requiredText('Venue address'),
+  theme: z.string().optional(),
+  message: z.string().optional(),
+  hashtag: z.string().optional(),
+  giftRegistry: z.object({
+    enabled: z.boolean(),
+    registryUrl: z.string().url('Invalid registry URL').optional(),
+    preferences: z.string().optional(),
+  }).optional(),
+  games: z.array(z.object({
+    name: requiredText('Game name'),
+    description: z.string(),
+  })).optional(),
+  rsvpEnabled: z.boolean(),
+});
 
-  if (data.age && (typeof data.age !== 'number' || data.age < 0)) {
-    errors.push('Age must be a positive number');
-  }
+export const businessFormSchema = z.object({
+  eventTitle: requiredText('Event title'),
+  company: requiredText('Company'),
+  eventType: requiredText('Event type'),
+  eventDate: dateString('event date'),
+  eventTime: timeString('Event time'),
+  venueName: requiredText('Venue name'),
+  venueAddress: requiredText('Venue address'),
+  agenda: z.array(z.object({
+    time: timeString('Agenda time'),
+    topic: requiredText('Agenda topic'),
+    speaker: z.string().optional(),
+  })),
+  dresscode: z.string().optional(),
+  contactPerson: z.object({
+    name: requiredText('Contact name'),
+    email: z.string().email('Invalid contact email'),
+    phone: z.string().refine(validatePhone, 'Invalid contact phone').optional(),
+  }),
+  rsvpEnabled: z.boolean(),
+  requiresApproval: z.boolean(),
+});
 
-  if (data.partyDate && !isValidDate(data.partyDate)) {
-    errors.push('Invalid party date');
-  }
+export const anniversaryFormSchema = z.object({
+  partnerOneName: requiredText('Partner name'),
+  partnerTwoName: requiredText('Partner name'),
+  years: z.number().int('Years must be a whole number').min(1, 'Years must be at least 1'),
+  weddingDate: dateString('wedding date').optional(),
+  couplePhoto: z.string().url('Invalid photo URL').optional(),
+  eventDate: dateString('event date'),
+  eventTime: timeString('Event time'),
+  venueName: requiredText('Venue name'),
+  venueAddress: requiredText('Venue address'),
+  story: z.string().optional(),
+  message: z.string().optional(),
+  hashtag: z.string().optional(),
+  dresscode: z.string().optional(),
+  timeline: z.array(z.object({
+    time: timeString('Timeline time'),
+    title: requiredText('Timeline title'),
+    description: z.string(),
+  })).optional(),
+  giftRegistryEnabled: z.boolean(),
+  bankAccount: bankAccountSchema.optional(),
+  rsvpEnabled: z.boolean(),
+});
 
-  return { isValid: errors.length === 0, errors };
-}
+export const partyFormSchema = z.object({
+  partyTitle: requiredText('Party title'),
+  hostName: requiredText('Host name'),
+  occasion: z.string().optional(),
+  partyDate: dateString('party date'),
+  partyTime: timeString('Party time'),
+  endTime: timeString('End time').optional(),
+  venueName: requiredText('Venue name'),
+  venueAddress: requiredText('Venue address'),
+  theme: z.string().optional(),
+  dresscode: z.string().optional(),
+  message: z.string().optional(),
+  hashtag: z.string().optional(),
+  activities: z.array(z.object({
+    time: timeString('Activity time'),
+    activity: requiredText('Activity'),
+    location: z.string(),
+  })).optional(),
+  rsvpEnabled: z.boolean(),
+});
 
-function validateGraduationData(data: Partial<GraduationFormData>): ValidationResult {
-  const errors: string[] = [];
+// Complete form data per invitation type; drafts accept any subset of these fields
+const formDataSchemas: Record<InvitationType, z.AnyZodObject> = {
+  [InvitationType.WEDDING]: weddingFormSchema,
+  [InvitationType.BIRTHDAY]: birthdayFormSchema,
+  [InvitationType.GRADUATION]: graduationFormSchema,
+  [InvitationType.BABY_SHOWER]: babyShowerFormSchema,
+  [InvitationType.BUSINESS]: businessFormSchema,
+  [InvitationType.ANNIVERSARY]: anniversaryFormSchema,
+  [InvitationType.PARTY]: partyFormSchema,
+};
+
+/**
+ * Validate invitation form data against its type's schema.
+ * Draft mode checks the fields that are present; publish mode also requires every required field.
+ * Pass the stored form data as previous when editing a published invitation, so dates that were
+ * already set may have passed (see validateFormConfig).
+ */
+export function validateInvitationData(
+  type: InvitationType,
+  data: Partial<InvitationFormData>,
+  mode: FormValidationMode = 'draft',
+  previous?: Partial<InvitationFormData>
+): ValidationResult {
+  const schema = formDataSchemas[type];
 
-  if (data.graduateName && typeof data.graduateName !== 'string') {
-    errors.push('Graduate name must be a string');
+  if (!schema) {
+    return {
+      isValid: false,
+      errors: [{ message: 'Invalid invitation type', code: 'invalid_type', field: 'type', value: type }]
+    };
   }
 
-  if (data.degree && typeof data.degree !== 'string') {
-    errors.push('Degree must be a string');
+  const result = (mode === 'publish' ? schema : schema.deepPartial()).safeParse(data || {}, {
+    errorMap: (issue, ctx) => issue.code === 'invalid_type' && issue.received === 'undefined'
+      ? { message: `${issue.path.join('.')} is required` }
+      : { message: ctx.defaultError }
+  });
+  if (!result.success) {
+    return { isValid: false, errors: toValidationErrors(result.error, data) };
   }
 
-  if (data.school && typeof data.school !== 'string') {
-    errors.push('School must be a string');
-  }
+  // Shapes are fine; now the rules the dashboard wizard is built from
+  const errors = validateFormConfig(INVITATION_TYPE_CONFIGS[type], data || {}, mode, previous);
+  return { isValid: errors.length === 0, errors };
+}
 
-  if (data.graduationDate && !isValidDate(data.graduationDate)) {
-    errors.push('Invalid graduation date');
+/**
+ * Enforce the field and step rules of an invitation type's form configuration.
+ * Required fields and step rules only apply in publish mode.
+ * With previous data, dateNotPast only applies to dates that change: a live invitation stays editable
+ * after its event day.
+ */
+export function validateFormConfig(
+  config: InvitationTypeConfig,
+  data: Record<string, any>,
+  mode: FormValidationMode,
+  previous?: Record<string, any>
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  for (const step of config.steps) {
+    for (const [fieldPath, field] of Object.entries(step.fields)) {
+      if (field.dependency && getValueAtPath(data, field.dependency.field.split('.')) !== field.dependency.value) {
+        continue;
+      }
+      errors.push(...validateFormField(fieldPath, field, getValueAtPath(data, fieldPath.split('.')), mode));
+    }
+
+    if (mode === 'publish') {
+      for (const rule of step.rules) {
+        if (rule.rule === 'dateNotPast' && previous) {
+          const fieldPath = rule.field.split('.');
+          if (getValueAtPath(previous, fieldPath) === getValueAtPath(data, fieldPath)) continue;
+        }
+
+        const error = validateStepRule(rule, data);
+        if (error) errors.push(error);
+      }
+    }
   }
 
-  return { isValid: errors.length === 0, errors };
+  return errors;
 }
 
-function validateBabyShowerData(data: Partial<BabyShowerFormData>): ValidationResult {
-  const errors: string[] = [];
+function validateFormField(fieldPath: string, field: FormFieldConfig, value: any, mode: FormValidationMode): ValidationError[] {
+  const error = (code: string, message: string): ValidationError => ({ message, code, field: fieldPath, value: value ?? null });
+  const rules = field.validation || {};
 
-  if (data.parentNames && !Array.isArray(data.parentNames)) {
-    errors.push('Parent names must be an array');
+  if (value === undefined || value === null || value === '') {
+    return mode === 'publish' && field.required ? [error('required', `${field.label} is required`)] : [];
   }
 
-  if (data.dueDate && !isValidDate(data.dueDate)) {
-    errors.push('Invalid due date');
+  if (typeof value === 'string') {
+    if (rules.minLength !== undefined && value.length < rules.minLength) {
+      return [error('too_small', `${field.label} must be at least ${rules.minLength} characters`)];
+    }
+    if (rules.maxLength !== undefined && value.length > rules.maxLength) {
+      return [error('too_big', `${field.label} must be at most ${rules.maxLength} characters`)];
+    }
+    if (rules.pattern && !new RegExp(rules.pattern).test(value)) {
+      return [error('invalid_string', `${field.label} has an invalid format`)];
+    }
+    if (rules.options && !rules.options.includes(value)) {
+      return [error('invalid_enum_value', `${field.label} must be one of: ${rules.options.join(', ')}`)];
+    }
   }
 
-  if (data.partyDate && !isValidDate(data.partyDate)) {
-    errors.push('Invalid party date');
+  if (typeof value === 'number') {
+    if (rules.min !== undefined && value < rules.min) {
+      return [error('too_small', `${field.label} must be at least ${rules.min}`)];
+    }
+    if (rules.max !== undefined && value > rules.max) {
+      return [error('too_big', `${field.label} must be at most ${rules.max}`)];
+    }
   }
 
-  if (data.gender && !['boy', 'girl', 'surprise'].includes(data.gender)) {
-    errors.push('Gender must be "boy", "girl", or "surprise"');
+  if (Array.isArray(value)) {
+    if (rules.minItems !== undefined && value.length < rules.minItems && mode === 'publish') {
+      return [error('too_small', `${field.label} needs at least ${rules.minItems} item(s)`)];
+    }
+    if (rules.maxItems !== undefined && value.length > rules.maxItems) {
+      return [error('too_big', `${field.label} can have at most ${rules.maxItems} item(s)`)];
+    }
+
+    const itemFields = field.itemFields;
+    if (itemFields) {
+      return value.flatMap((item, index) => Object.entries(itemFields).flatMap(([key, itemField]) =>
+        validateFormField(`${fieldPath}.${index}.${key}`, itemField, item?.[key], mode)
+      ));
+    }
   }
 
-  return { isValid: errors.length === 0, errors };
+  return [];
 }
 
-function validateBusinessData(data: Partial<BusinessFormData>): ValidationResult {
-  const errors: string[] = [];
-
-  if (data.eventTitle && typeof data.eventTitle !== 'string') {
-    errors.push('Event title must be a string');
+function validateStepRule(rule: FormStepRule, data: Record<string, any>): ValidationError | null {
+  const value = getValueAtPath(data, rule.field.split('.'));
+  const other = rule.compareTo ? getValueAtPath(data, rule.compareTo.split('.')) : undefined;
+  const error = (): ValidationError => ({ message: rule.message, code: rule.rule, field: rule.field, value: value ?? null });
+
+  if (value === undefined || value === null || value === '') return null;
+
+  switch (rule.rule) {
+    case 'dateNotPast':
+      return toDateOnly(value) < new Date().toISOString().slice(0, 10) ? error() : null;
+    case 'dateNotBefore':
+      return other && toDateOnly(value) < toDateOnly(other) ? error() : null;
+    case 'timeAfter':
+      // HH:MM strings compare correctly as text
+      return other && String(value) <= String(other) ? error() : null;
+    default:
+      return null;
   }
+}
 
-  if (data.company && typeof data.company !== 'string') {
-    errors.push('Company must be a string');
-  }
+function toDateOnly(value: string): string {
+  return new Date(value).toISOString().slice(0, 10);
+}
 
-  if (data.eventDate && !isValidDate(data.eventDate)) {
-    errors.push('Invalid event date');
-  }
+/**
+ * Flatten zod issues into field-path errors, e.g. "timeline.0.time"
+ */
+function toValidationErrors(error: ZodError, data: unknown): ValidationError[] {
+  return error.issues.map(issue => ({
+    message: issue.message,
+    code: issue.code,
+    field: issue.path.join('.'),
+    value: getValueAtPath(data, issue.path) ?? null
+  }));
+}
 
-  return { isValid: errors.length === 0, errors };
+function getValueAtPath(data: unknown, path: Array<string | number>): any {
+  return path.reduce<any>((value, key) => (value === null || value === undefined ? undefined : value[key]), data);
 }
 
 function isValidDate(dateString: string): boolean {
@@ -183,33 +424,153 @@ export const createResellerSchema = z.object({
 });
 
 // Plan validation schemas
+// -1 means unlimited
+const planLimit = z.number().int().min(-1, 'Limit must be -1 (unlimited) or more').nullable();
+
 export const createPlanSchema = z.object({
   name: z.string().min(2, 'Plan name must be at least 2 characters'),
+  description: z.string().max(2000).nullable().optional(),
   type: z.enum(['FREE', 'PREMIUM']),
   price: z.number().min(0, 'Price cannot be negative'),
   invite_type: z.enum(['WEDDING', 'BIRTHDAY', 'PARTY', 'CORPORATE', 'OTHER']),
+  features: z.record(z.any()).nullable().optional(),
+  max_invites: planLimit.optional(),
+  max_templates: planLimit.optional(),
 });
 
 export const updatePlanSchema = z.object({
   name: z.string().min(2).optional(),
+  description: z.string().max(2000).nullable().optional(),
   type: z.enum(['FREE', 'PREMIUM']).optional(),
   price: z.number().min(0).optional(),
   invite_type: z.enum(['WEDDING', 'BIRTHDAY', 'PARTY', 'CORPORATE', 'OTHER']).optional(),
+  features: z.record(z.any()).nullable().optional(),
+  max_invites: planLimit.optional(),
+  max_templates: planLimit.optional(),
+  is_active: z.boolean().optional(),
+}).refine(data => Object.keys(data).length > 0, 'At least one field must be provided');
+
+export const planTemplatesSchema = z.object({
+  template_ids: z.array(z.string().uuid('Invalid template ID format')).max(500)
+    .refine(ids => new Set(ids).size === ids.length, 'Template IDs must be unique'),
 });
 
 // Template validation schemas
-export const createTemplateSchema = z.object({
-  plan_id: z.string().uuid('Invalid plan ID'),
-  name: z.string().min(2, 'Template name must be at least 2 characters'),
-  preview_url: z.string().url('Invalid preview URL'),
-  component_id: z.string().min(1, 'Component ID is required'),
-});
+const templateFields = {
+  name: z.string().trim().min(2, 'Template name must be at least 2 characters').max(255),
+  description: z.string().max(2000).nullable().optional(),
+  thumbnail_url: z.string().url('Invalid thumbnail URL').nullable().optional(),
+  preview_url: z.string().url('Invalid preview URL').nullable().optional(),
+  category: z.nativeEnum(InvitationType, { errorMap: () => ({ message: 'Invalid template category' }) }),
+  style: z.nativeEnum(TemplateStyle, { errorMap: () => ({ message: 'Invalid template style' }) }),
+  template_data: z.record(z.any()),
+  default_config: z.record(z.any()).nullable().optional(),
+  supported_fields: z.array(z.string().min(1)).max(200).nullable().optional(),
+  features: z.array(z.string().min(1).max(100)).max(50).nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(50)).max(50).nullable().optional(),
+  is_premium: z.boolean().default(false),
+  price: z.number().min(0, 'Price cannot be negative').default(0),
+};
+
+export const createTemplateSchema = z.object(templateFields)
+  .refine(data => !data.is_premium || data.price > 0, { message: 'Premium templates must have a price', path: ['price'] });
 
 export const updateTemplateSchema = z.object({
-  plan_id: z.string().uuid().optional(),
-  name: z.string().min(2).optional(),
-  preview_url: z.string().url().optional(),
-  component_id: z.string().min(1).optional(),
+  ...templateFields,
+  is_premium: z.boolean(),
+  price: z.number().min(0, 'Price cannot be negative'),
+  is_active: z.boolean(),
+}).partial().refine(data => Object.keys(data).length > 0, 'At least one field must be provided');
+
+export const templateParamsSchema = z.object({
+  id: z.string().uuid('Invalid template ID format'),
+});
+
+// Invitation validation schemas
+export const invitationParamsSchema = z.object({
+  id: z.string().uuid('Invalid invitation ID format'),
+});
+
+export const createInvitationSchema = z.object({
+  type: z.nativeEnum(InvitationType, { errorMap: () => ({ message: 'Invalid invitation type' }) }),
+  title: z.string().trim().min(1, 'Title is required').max(255),
+  form_data: z.record(z.any()).default({}),
+  template_id: z.string().uuid('Invalid template ID').optional(),
+  slug: z.string().trim().min(1).max(255).optional(),
+});
+
+export const updateInvitationSchema = z.object({
+  title: z.string().trim().min(1).max(255).optional(),
+  form_data: z.record(z.any()).optional(),
+  template_customization: z.record(z.any()).optional(),
+  template_id: z.string().uuid('Invalid template ID').optional(),
+  expected_version: z.number().int().positive('Invalid version').optional(),
+}).refine(data => Object.keys(data).some(key => key !== 'expected_version'), 'At least one field must be provided');
+
+const jsonPointer = z.string().regex(/^(\/[^/]*)*$/, 'Invalid JSON Pointer');
+
+// PATCH with application/json-patch+json: RFC 6902 operations applied to form_data
+export const jsonPatchSchema = z.array(z.discriminatedUnion('op', [
+  z.object({ op: z.enum(['add', 'replace', 'test']), path: jsonPointer, value: z.any().refine(value => value !== undefined, 'Required') }),
+  z.object({ op: z.literal('remove'), path: jsonPointer }),
+  z.object({ op: z.enum(['move', 'copy']), from: jsonPointer, path: jsonPointer }),
+])).min(1, 'At least one operation must be provided').max(100);
+
+export const publishInvitationSchema = z.object({
+  publish_at: z.string().datetime({ offset: true, message: 'Invalid publish date' })
+    .refine(value => new Date(value).getTime() > Date.now(), 'Publish date must be in the future')
+    .optional(),
+  expires_at: z.string().datetime({ offset: true, message: 'Invalid expiry date' }).optional(),
+  meta_title: z.string().max(255).optional(),
+  meta_description: z.string().max(500).optional(),
+}).refine(
+  data => !data.publish_at || !data.expires_at || new Date(data.expires_at) > new Date(data.publish_at),
+  { message: 'Expiry date must be after the publish date', path: ['expires_at'] }
+);
+
+export const duplicateInvitationSchema = z.object({
+  title: z.string().trim().min(1).max(255).optional(),
+});
+
+// Guest validation schemas
+export const createGuestSchema = z.object({
+  name: z.string().trim().min(1, 'Guest name is required').max(255),
+  email: z.string().email('Invalid email format').optional().nullable(),
+  phone: z.string().refine(validatePhone, 'Invalid phone number').optional().nullable(),
+  response: z.nativeEnum(GuestResponse).optional(),
+  response_data: z.record(z.any()).optional().nullable(),
+  plus_ones_count: z.number().int().min(0).max(20).optional(),
+  plus_ones_details: z.record(z.any()).optional().nullable(),
+  email_notifications: z.boolean().optional(),
+  sms_notifications: z.boolean().optional(),
+  is_approved: z.boolean().optional(),
+});
+
+export const updateGuestSchema = createGuestSchema
+  .partial()
+  .refine(data => Object.keys(data).length > 0, 'At least one field must be provided');
+
+export const submitRsvpSchema = z.object({
+  guest_token: z.string().min(1).max(64).optional(),
+  name: z.string().trim().min(1, 'Name is required').max(255).optional(),
+  email: z.string().email('Invalid email format').optional().nullable(),
+  phone: z.string().refine(validatePhone, 'Invalid phone number').optional().nullable(),
+  response: z.enum([GuestResponse.ATTENDING, GuestResponse.NOT_ATTENDING, GuestResponse.MAYBE]),
+  response_data: z.record(z.any()).optional().nullable(),
+  plus_ones_count: z.number().int().min(0).max(20).optional(),
+  plus_ones_details: z.record(z.any()).optional().nullable(),
+}).refine(data => data.guest_token || data.name, { message: 'Name is required', path: ['name'] });
+
+export const trackEventSchema = z.object({
+  event_type: z.nativeEnum(AnalyticsEventType, { errorMap: () => ({ message: 'Invalid event type' }) }),
+  session_id: z.string().min(1).max(255).optional(),
+  referrer: z.string().max(500).optional(),
+  event_data: z.record(z.any()).optional(),
+});
+
+export const guestParamsSchema = z.object({
+  id: z.string().uuid('Invalid invitation ID format'),
+  guestId: z.string().uuid('Invalid guest ID format').optional(),
 });
 
 // Query parameter validation schemas
@@ -230,6 +591,21 @@ export const resellerQuerySchema = z.object({
   ...paginationSchema.shape,
 });
 
+export const adminTemplateQuerySchema = z.object({
+  category: z.nativeEnum(InvitationType).optional(),
+  is_active: z.string().transform(val => val === 'true').optional(),
+  search: z.string().optional(),
+  // Optional, unlike paginationSchema; parsePaginationQuery applies the defaults
+  page: z.string().optional(),
+  limit: z.string().optional(),
+});
+
+export const planQuerySchema = z.object({
+  type: z.enum(['FREE', 'PREMIUM']).optional(),
+  is_active: z.string().transform(val => val === 'true').optional(),
+  ...paginationSchema.shape,
+});
+
 export const inviteQuerySchema = z.object({
   user_id: z.string().uuid().optional(),
   plan_id: z.string().uuid().optional(),
@@ -238,3 +614,111 @@ export const inviteQuerySchema = z.object({
   is_published: z.string().transform(val => val === 'true').optional(),
   ...paginationSchema.shape,
 });
+
+export const guestQuerySchema = z.object({
+  response: z.nativeEnum(GuestResponse).optional(),
+  search: z.string().trim().min(1).optional(),
+  opened: z.enum(['true', 'false']).optional().transform(val => val === undefined ? undefined : val === 'true'),
+  page: z.string().optional().transform(val => Math.max(1, parseInt(val || '1') || 1)),
+  limit: z.string().optional().transform(val => Math.min(100, Math.max(1, parseInt(val || '20') || 20))),
+});
+
+export const invitationQuerySchema = z.object({
+  type: z.nativeEnum(InvitationType).optional(),
+  status: z.nativeEnum(InvitationStatus).optional(),
+  search: z.string().trim().min(1).optional(),
+  page: z.string().optional().transform(val => Math.max(1, parseInt(val || '1') || 1)),
+  limit: z.string().optional().transform(val => Math.min(100, Math.max(1, parseInt(val || '10') || 10))),
+});
+
+const dateOnlySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD')
+  .refine(isValidDate, 'Invalid date');
+
+export const analyticsQuerySchema = z.object({
+  from: dateOnlySchema.optional(),
+  to: dateOnlySchema.optional(),
+}).refine(
+  data => !data.from || !data.to || data.from <= data.to,
+  { message: 'from must be on or before to', path: ['from'] }
+);
+
+export const activityQuerySchema = z.object({
+  page: z.string().optional().transform(val => Math.max(1, parseInt(val || '1') || 1)),
+  limit: z.string().optional().transform(val => Math.min(100, Math.max(1, parseInt(val || '20') || 20))),
+});
+
+export const uploadMediaSchema = z.object({
+  media_type: z.nativeEnum(MediaType),
+  alt_text: z.string().max(255).optional(),
+});
+
+export const mediaQuerySchema = z.object({
+  media_type: z.nativeEnum(MediaType).optional(),
+});
+
+export const mediaParamsSchema = z.object({
+  id: z.string().uuid('Invalid invitation ID format'),
+  mediaId: z.string().uuid('Invalid media ID format').optional(),
+});
+
+export const reorderMediaSchema = z.object({
+  media_ids: z.array(z.string().uuid('Invalid media ID format')).min(1).max(100)
+    .refine(ids => new Set(ids).size === ids.length, 'Media IDs must be unique'),
+});
+
+export const updateMediaSchema = z.object({
+  alt_text: z.string().max(255).nullable(),
+});
+
+export const invitationTypeParamsSchema = z.object({
+  type: z.nativeEnum(InvitationType, { errorMap: () => ({ message: 'Invalid invitation type' }) }),
+});
+
+const revisionNumber = z.string().regex(/^[1-9]\d*$/, 'Invalid revision number');
+
+export const revisionParamsSchema = z.object({
+  id: z.string().uuid('Invalid invitation ID format'),
+  revision: revisionNumber,
+});
+
+export const revisionQuerySchema = z.object({
+  page: z.string().optional().transform(val => Math.max(1, parseInt(val || '1') || 1)),
+  limit: z.string().optional().transform(val => Math.min(100, Math.max(1, parseInt(val || '20') || 20))),
+});
+
+export const revisionDiffQuerySchema = z.object({
+  from: revisionNumber.transform(val => parseInt(val)),
+  // Omitted to compare with the current invitation
+  to: revisionNumber.transform(val => parseInt(val)).optional(),
+});
+
+export const slugAvailabilityQuerySchema = z.object({
+  slug: z.string().trim().min(1, 'Slug is required').max(255),
+  // Lets an invitation keep or take back its own slugs
+  invitation_id: z.string().uuid('Invalid invitation ID format').optional(),
+});
+
+export const templateCompatibilityQuerySchema = z.object({
+  template_id: z.string().uuid('Invalid template ID'),
+});
+
+export const changeSlugSchema = z.object({
+  slug: z.string().trim().min(1, 'Slug is required').max(255),
+});
+
+export const updateInvitationAccessSchema = z.object({
+  access_mode: z.nativeEnum(InvitationAccessMode, { errorMap: () => ({ message: 'Invalid access mode' }) }),
+  password: z.string().min(6, 'Password must be at least 6 characters').max(128).optional(),
+});
+
+export const invitationAccessSchema = z.object({
+  password: z.string().min(1).max(128).optional(),
+  guest_token: z.string().min(1).max(255).optional(),
+}).refine(data => data.password || data.guest_token, 'Password or guest token is required');
+
+export const upgradeTemplateSchema = z.object({
+  // latest_version from the upgrade preview; refused if the template has changed since
+  version: z.number().int().positive().optional(),
+});
@@ -0,0 +1,112 @@
+-- Public RSVP submission support
+-- Guests can answer an invitation themselves; invitation counters are kept in sync inside the database
+
+-- Submissions on invitations with require_approval stay unapproved until the host accepts them
+ALTER TABLE invitation_guests ADD COLUMN IF NOT EXISTS is_approved BOOLEAN DEFAULT true;
+
+-- Recalculate rsvp_count (guests who answered) and confirmed_count (approved attending guests plus their plus ones)
+CREATE OR REPLACE FUNCTION refresh_invitation_rsvp_counts(inv_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE invitations
+    SET
+        rsvp_count = (
+            SELECT COUNT(*)
+            FROM invitation_guests
+            WHERE invitation_id = inv_id
+            AND response <> 'pending'
+        ),
+        confirmed_count = (
+            SELECT COALESCE(SUM(1 + COALESCE(plus_ones_count, 0)), 0)
+            FROM invitation_guests
+            WHERE invitation_id = inv_id
+            AND response = 'attending'
+            AND is_approved = true
+        )
+    WHERE id = inv_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record a guest response and refresh the invitation counters in one transaction.
+-- Only a personalized link (p_guest_id) answers for an existing guest; otherwise a new guest is added,
+-- and a submission reusing the email or phone of a listed guest is rejected with unique_violation.
+CREATE OR REPLACE FUNCTION submit_invitation_rsvp(
+    p_invitation_id UUID,
+    p_guest_id UUID,
+    p_name TEXT,
+    p_email TEXT,
+    p_phone TEXT,
+    p_response TEXT,
+    p_response_data JSONB,
+    p_plus_ones_count INTEGER,
+    p_plus_ones_details JSONB,
+    p_is_approved BOOLEAN
+)
+RETURNS invitation_guests AS $$
+DECLARE
+    v_guest_id UUID := p_guest_id;
+    v_guest invitation_guests;
+BEGIN
+    -- Serialize submissions per invitation so concurrent RSVPs cannot interleave counter updates
+    PERFORM 1 FROM invitations WHERE id = p_invitation_id FOR UPDATE;
+
+    IF v_guest_id IS NULL THEN
+        -- Contact details are not proof of identity, so they never select someone else's answer
+        IF EXISTS (
+            SELECT 1
+            FROM invitation_guests
+            WHERE invitation_id = p_invitation_id
+            AND (
+                (p_email IS NOT NULL AND LOWER(email) = LOWER(p_email))
+                OR (p_phone IS NOT NULL AND phone = p_phone)
+            )
+        ) THEN
+            RAISE EXCEPTION 'Guest already exists' USING ERRCODE = 'unique_violation';
+        END IF;
+
+        INSERT INTO invitation_guests (
+            invitation_id,
+            name,
+            email,
+            phone,
+            response,
+            response_data,
+            plus_ones_count,
+            plus_ones_details,
+            response_submitted_at,
+            is_approved
+        ) VALUES (
+            p_invitation_id,
+            p_name,
+            p_email,
+            p_phone,
+            p_response,
+            p_response_data,
+            COALESCE(p_plus_ones_count, 0),
+            p_plus_ones_details,
+            NOW(),
+            p_is_approved
+        )
+        RETURNING * INTO v_guest;
+    ELSE
+        -- Approval stays as the host left it
+        UPDATE invitation_guests
+        SET
+            name = COALESCE(p_name, name),
+            email = COALESCE(p_email, email),
+            phone = COALESCE(p_phone, phone),
+            response = p_response,
+            response_data = p_response_data,
+            plus_ones_count = COALESCE(p_plus_ones_count, 0),
+            plus_ones_details = p_plus_ones_details,
+            response_submitted_at = NOW()
+        WHERE id = v_guest_id
+        AND invitation_id = p_invitation_id
+        RETURNING * INTO v_guest;
+    END IF;
+
+    PERFORM refresh_invitation_rsvp_counts(p_invitation_id);
+
+    RETURN v_guest;
+END;
+$$ LANGUAGE plpgsql;
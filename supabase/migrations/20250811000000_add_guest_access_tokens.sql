@@ -0,0 +1,14 @@
+-- Personalized guest links
+-- Every guest gets an unguessable token used in /api/public/invitations/:slug?g=<token>
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE invitation_guests ADD COLUMN IF NOT EXISTS access_token VARCHAR(64);
+
+-- Backfill existing guests, then generate tokens for every new guest (including RSVP-created ones)
+UPDATE invitation_guests SET access_token = encode(gen_random_bytes(24), 'hex') WHERE access_token IS NULL;
+ALTER TABLE invitation_guests ALTER COLUMN access_token SET DEFAULT encode(gen_random_bytes(24), 'hex');
+ALTER TABLE invitation_guests ALTER COLUMN access_token SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invitation_guests_access_token ON invitation_guests(access_token);
+CREATE INDEX IF NOT EXISTS idx_invitation_guests_opened_at ON invitation_guests(invitation_id, invitation_opened_at);
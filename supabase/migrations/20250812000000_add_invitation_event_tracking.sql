@@ -0,0 +1,62 @@
+-- Event-level analytics ingestion
+-- Stores a salted hash of the visitor IP instead of the raw address and keeps view counters atomic
+
+ALTER TABLE invitation_analytics ADD COLUMN IF NOT EXISTS ip_hash VARCHAR(64);
+
+CREATE INDEX IF NOT EXISTS idx_invitation_analytics_session ON invitation_analytics(invitation_id, session_id);
+
+-- Record an event and bump view counters in one statement batch.
+-- A view counts towards unique_view_count the first time its session is seen for the invitation.
+CREATE OR REPLACE FUNCTION record_invitation_event(
+    inv_id UUID,
+    p_event_type TEXT,
+    p_event_data JSONB DEFAULT NULL,
+    p_session_id TEXT DEFAULT NULL,
+    p_user_agent TEXT DEFAULT NULL,
+    p_referrer TEXT DEFAULT NULL,
+    p_ip_hash TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+    v_is_new_session BOOLEAN := false;
+BEGIN
+    IF p_event_type = 'view' AND p_session_id IS NOT NULL THEN
+        -- Serialize concurrent first views of the same session
+        PERFORM pg_advisory_xact_lock(hashtext(inv_id::text || ':' || p_session_id));
+
+        v_is_new_session := NOT EXISTS (
+            SELECT 1
+            FROM invitation_analytics
+            WHERE invitation_id = inv_id
+            AND event_type = 'view'
+            AND session_id = p_session_id
+        );
+    END IF;
+
+    INSERT INTO invitation_analytics (
+        invitation_id,
+        event_type,
+        event_data,
+        session_id,
+        user_agent,
+        referrer,
+        ip_hash
+    ) VALUES (
+        inv_id,
+        p_event_type,
+        p_event_data,
+        p_session_id,
+        p_user_agent,
+        p_referrer,
+        p_ip_hash
+    );
+
+    IF p_event_type = 'view' THEN
+        UPDATE invitations
+        SET
+            view_count = view_count + 1,
+            unique_view_count = unique_view_count + CASE WHEN v_is_new_session THEN 1 ELSE 0 END
+        WHERE id = inv_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,17 @@
+-- Activity log for the user dashboard
+-- Meaningful invitation events (created, published, RSVPs, expiry) per invitation owner
+
+CREATE TABLE IF NOT EXISTS invitation_activity (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL,
+    invitation_id UUID REFERENCES invitations(id) ON DELETE CASCADE,
+
+    activity_type VARCHAR(50) NOT NULL, -- 'invitation_created', 'invitation_published', 'guest_rsvp', 'guest_declined', 'invitation_expired'
+    message TEXT NOT NULL,
+    metadata JSONB,
+
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invitation_activity_user_created ON invitation_activity(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_invitation_activity_invitation_id ON invitation_activity(invitation_id);
@@ -0,0 +1,72 @@
+-- Storage for invitation media uploads
+-- Public bucket for uploaded files and their generated variants (thumbnails, compressed copies)
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('invitation-media', 'invitation-media', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Media is listed per invitation and type in display order
+CREATE INDEX IF NOT EXISTS idx_invitation_media_invitation_type_order
+    ON invitation_media(invitation_id, media_type, display_order);
+
+-- Add an uploaded file at the end of its media type, refusing it once p_max_items are stored.
+-- Counting and inserting under the invitation lock keeps concurrent uploads within the limit.
+CREATE OR REPLACE FUNCTION insert_invitation_media(
+    inv_id UUID,
+    p_media_type VARCHAR,
+    p_max_items INTEGER,
+    p_file_name VARCHAR,
+    p_file_path VARCHAR,
+    p_file_type VARCHAR,
+    p_mime_type VARCHAR,
+    p_file_size BIGINT,
+    p_alt_text VARCHAR
+)
+RETURNS invitation_media AS $$
+DECLARE
+    v_count INTEGER;
+    v_next_order INTEGER;
+    v_media invitation_media;
+BEGIN
+    -- Serialize media changes per invitation
+    PERFORM 1 FROM invitations WHERE id = inv_id FOR UPDATE;
+
+    SELECT COUNT(*), COALESCE(MAX(display_order), -1) + 1
+    INTO v_count, v_next_order
+    FROM invitation_media
+    WHERE invitation_id = inv_id
+    AND media_type = p_media_type;
+
+    IF v_count >= p_max_items THEN
+        RAISE EXCEPTION 'Media limit reached for %', p_media_type USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO invitation_media (
+        invitation_id,
+        file_name,
+        file_path,
+        file_type,
+        mime_type,
+        file_size,
+        media_type,
+        display_order,
+        alt_text,
+        is_processed
+    )
+    VALUES (
+        inv_id,
+        p_file_name,
+        p_file_path,
+        p_file_type,
+        p_mime_type,
+        p_file_size,
+        p_media_type,
+        v_next_order,
+        p_alt_text,
+        false
+    )
+    RETURNING * INTO v_media;
+
+    RETURN v_media;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,97 @@
+-- Gallery ordering and hero image selection
+-- Both operations touch several invitation_media rows and run in one transaction
+
+-- Assign display_order by position in p_media_ids; returns the number of rows listed.
+-- Items of the same media types that are not listed keep their relative order after the listed ones.
+CREATE OR REPLACE FUNCTION reorder_invitation_media(inv_id UUID, p_media_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+    v_listed INTEGER;
+BEGIN
+    -- Serialize media changes per invitation
+    PERFORM 1 FROM invitations WHERE id = inv_id FOR UPDATE;
+
+    SELECT COUNT(*) INTO v_listed
+    FROM invitation_media
+    WHERE id = ANY(p_media_ids)
+    AND invitation_id = inv_id;
+
+    -- All or nothing: unknown IDs reject the whole reorder
+    IF v_listed <> COALESCE(array_length(p_media_ids, 1), 0) THEN
+        RAISE EXCEPTION 'Media not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    UPDATE invitation_media AS m
+    SET display_order = ranked.new_order
+    FROM (
+        SELECT
+            im.id,
+            ROW_NUMBER() OVER (
+                PARTITION BY im.media_type
+                ORDER BY ordered.position NULLS LAST, im.display_order, im.created_at, im.id
+            ) - 1 AS new_order
+        FROM invitation_media im
+        LEFT JOIN unnest(p_media_ids) WITH ORDINALITY AS ordered(media_id, position)
+            ON ordered.media_id = im.id
+        WHERE im.invitation_id = inv_id
+        AND im.media_type IN (
+            SELECT media_type FROM invitation_media
+            WHERE id = ANY(p_media_ids)
+            AND invitation_id = inv_id
+        )
+    ) ranked
+    WHERE m.id = ranked.id;
+
+    RETURN v_listed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Make an image the invitation's hero; the previous hero moves to the end of the gallery.
+-- Raises check_violation when that would take the gallery past p_gallery_max_items.
+CREATE OR REPLACE FUNCTION set_invitation_hero_media(inv_id UUID, p_media_id UUID, p_gallery_max_items INTEGER)
+RETURNS invitation_media AS $$
+DECLARE
+    v_media invitation_media;
+BEGIN
+    -- Serialize hero changes per invitation
+    PERFORM 1 FROM invitations WHERE id = inv_id FOR UPDATE;
+
+    -- The new hero leaves the gallery if it was in it, making room for the previous one
+    IF EXISTS (
+        SELECT 1 FROM invitation_media
+        WHERE invitation_id = inv_id
+        AND media_type = 'hero_image'
+        AND id <> p_media_id
+    ) AND (
+        SELECT COUNT(*) FROM invitation_media
+        WHERE invitation_id = inv_id
+        AND media_type = 'gallery'
+        AND id <> p_media_id
+    ) >= p_gallery_max_items THEN
+        RAISE EXCEPTION 'Media limit reached for gallery' USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE invitation_media
+    SET
+        media_type = 'gallery',
+        display_order = (
+            SELECT COALESCE(MAX(display_order), -1) + 1
+            FROM invitation_media
+            WHERE invitation_id = inv_id
+            AND media_type = 'gallery'
+        )
+    WHERE invitation_id = inv_id
+    AND media_type = 'hero_image'
+    AND id <> p_media_id;
+
+    UPDATE invitation_media
+    SET
+        media_type = 'hero_image',
+        display_order = 0
+    WHERE id = p_media_id
+    AND invitation_id = inv_id
+    RETURNING * INTO v_media;
+
+    RETURN v_media;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,81 @@
+-- Anniversary and party invitations
+-- Readable slugs for both types and starter templates so they can be filtered like the other categories
+
+CREATE OR REPLACE FUNCTION generate_invitation_slug(invitation_type TEXT, form_data JSONB)
+RETURNS TEXT AS $$
+DECLARE
+    base_slug TEXT;
+    final_slug TEXT;
+    counter INTEGER := 1;
+BEGIN
+    -- Generate base slug based on invitation type and data
+    CASE invitation_type
+        WHEN 'wedding' THEN
+            base_slug := LOWER(
+                COALESCE(form_data->>'brideName', 'bride') || '-' || 
+                COALESCE(form_data->>'groomName', 'groom') || '-wedding'
+            );
+        WHEN 'birthday' THEN
+            base_slug := LOWER(
+                COALESCE(form_data->>'celebrantName', 'birthday') || '-birthday-' ||
+                COALESCE(form_data->>'age', 'party')
+            );
+        WHEN 'graduation' THEN
+            base_slug := LOWER(
+                COALESCE(form_data->>'graduateName', 'graduate') || '-graduation'
+            );
+        WHEN 'anniversary' THEN
+            base_slug := LOWER(
+                COALESCE(form_data->>'partnerOneName', 'partner') || '-' ||
+                COALESCE(form_data->>'partnerTwoName', 'partner') || '-anniversary'
+            );
+        WHEN 'party' THEN
+            base_slug := LOWER(
+                COALESCE(form_data->>'partyTitle', form_data->>'hostName', 'party') || '-party'
+            );
+        ELSE
+            base_slug := invitation_type || '-invitation';
+    END CASE;
+    
+    -- Clean up slug
+    base_slug := REGEXP_REPLACE(base_slug, '[^a-z0-9-]', '-', 'g');
+    base_slug := REGEXP_REPLACE(base_slug, '-+', '-', 'g');
+    base_slug := TRIM(BOTH '-' FROM base_slug);
+    
+    -- Ensure uniqueness
+    final_slug := base_slug;
+    WHILE EXISTS (SELECT 1 FROM invitations WHERE slug = final_slug) LOOP
+        final_slug := base_slug || '-' || counter;
+        counter := counter + 1;
+    END LOOP;
+    
+    RETURN final_slug;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Starter templates
+INSERT INTO templates (name, description, category, style, template_data, supported_fields, is_premium, features, tags)
+SELECT
+    'Golden Years Anniversary',
+    'Warm anniversary invitation celebrating the couple''s years together',
+    'anniversary',
+    'elegant',
+    '{"layout": "classic", "colors": {"primary": "#c9a227", "secondary": "#fff8e7"}}',
+    '["partnerOneName", "partnerTwoName", "years", "eventDate", "venue", "story", "timeline"]',
+    false,
+    ARRAY['Photo Gallery', 'RSVP Form', 'Timeline', 'Gift Registry'],
+    ARRAY['anniversary', 'elegant', 'gold', 'romantic', 'celebration']
+WHERE NOT EXISTS (SELECT 1 FROM templates WHERE name = 'Golden Years Anniversary');
+
+INSERT INTO templates (name, description, category, style, template_data, supported_fields, is_premium, features, tags)
+SELECT
+    'Neon Night Party',
+    'Bold party invitation with neon colors for any get-together',
+    'party',
+    'modern',
+    '{"layout": "modern", "colors": {"primary": "#ff2e93", "secondary": "#1b1b3a"}}',
+    '["partyTitle", "hostName", "partyDate", "venue", "theme", "activities"]',
+    false,
+    ARRAY['RSVP Form', 'Activities List', 'Music Player'],
+    ARRAY['party', 'modern', 'neon', 'fun', 'night']
+WHERE NOT EXISTS (SELECT 1 FROM templates WHERE name = 'Neon Night Party');
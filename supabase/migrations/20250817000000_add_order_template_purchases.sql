@@ -0,0 +1,6 @@
+-- Premium template purchases
+-- An order can pay for a single premium template; completed orders unlock publishing with it
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES templates(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_user_template_status ON orders(user_id, template_id, status);
@@ -0,0 +1,9 @@
+-- Scheduled publishing and automatic expiry
+-- Drafts with publish_at are published by the scheduler; published invitations past their expiry are expired
+
+ALTER TABLE invitations ADD COLUMN IF NOT EXISTS publish_at TIMESTAMPTZ;
+
+-- Scheduler lookups
+CREATE INDEX IF NOT EXISTS idx_invitations_scheduled_publish ON invitations(publish_at) WHERE publish_at IS NOT NULL AND is_published = false;
+CREATE INDEX IF NOT EXISTS idx_invitations_published_expires_at ON invitations(expires_at) WHERE status = 'published';
+CREATE INDEX IF NOT EXISTS idx_invitations_published_event_date ON invitations(event_date) WHERE status = 'published';
@@ -0,0 +1,64 @@
+-- Invitation revision history
+-- The editable content an invitation had before every change is kept so edits can be undone
+
+CREATE TABLE IF NOT EXISTS invitation_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    invitation_id UUID NOT NULL REFERENCES invitations(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL,
+
+    -- Snapshot
+    title VARCHAR(255) NOT NULL,
+    form_data JSONB NOT NULL,
+    template_customization JSONB,
+
+    source VARCHAR(20) NOT NULL DEFAULT 'update', -- 'update', 'restore'
+    created_by UUID,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE (invitation_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invitation_revisions_invitation_id ON invitation_revisions(invitation_id, revision_number DESC);
+
+-- Record a revision of an invitation owned by p_user_id: the given content, or the current content when none is given.
+-- Callers pass the content an update replaced once the update succeeded, so failed edits leave no revision.
+-- Returns NULL when there is no such invitation.
+CREATE OR REPLACE FUNCTION record_invitation_revision(
+    inv_id UUID,
+    p_user_id UUID,
+    p_source TEXT,
+    p_title TEXT DEFAULT NULL,
+    p_form_data JSONB DEFAULT NULL,
+    p_template_customization JSONB DEFAULT NULL
+)
+RETURNS invitation_revisions AS $$
+DECLARE
+    v_invitation invitations;
+    v_revision invitation_revisions;
+BEGIN
+    -- Lock the invitation so concurrent edits get distinct revision numbers
+    SELECT * INTO v_invitation
+    FROM invitations
+    WHERE id = inv_id
+    AND user_id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO invitation_revisions (invitation_id, revision_number, title, form_data, template_customization, source, created_by)
+    VALUES (
+        inv_id,
+        COALESCE((SELECT MAX(revision_number) FROM invitation_revisions WHERE invitation_id = inv_id), 0) + 1,
+        CASE WHEN p_form_data IS NULL THEN v_invitation.title ELSE p_title END,
+        COALESCE(p_form_data, v_invitation.form_data),
+        CASE WHEN p_form_data IS NULL THEN v_invitation.template_customization ELSE p_template_customization END,
+        p_source,
+        p_user_id
+    )
+    RETURNING * INTO v_revision;
+
+    RETURN v_revision;
+END;
+$$ LANGUAGE plpgsql;
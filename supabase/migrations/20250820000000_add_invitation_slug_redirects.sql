@@ -0,0 +1,112 @@
+-- Custom invitation slugs
+-- Slugs replaced after an invitation was published keep working as redirects to the current slug
+
+CREATE TABLE IF NOT EXISTS invitation_slug_redirects (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    invitation_id UUID NOT NULL REFERENCES invitations(id) ON DELETE CASCADE,
+    slug VARCHAR(255) NOT NULL UNIQUE,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invitation_slug_redirects_invitation_id ON invitation_slug_redirects(invitation_id);
+
+-- Generated slugs also skip slugs that are kept as redirects
+CREATE OR REPLACE FUNCTION generate_invitation_slug(invitation_type TEXT, form_data JSONB)
+RETURNS TEXT AS $$
+DECLARE
+    base_slug TEXT;
+    final_slug TEXT;
+    counter INTEGER := 1;
+BEGIN
+    -- Generate base slug based on invitation type and data
+    CASE invitation_type
+        WHEN 'wedding' THEN
+            base_slug := LOWER(
+                COALESCE(form_data->>'brideName', 'bride') || '-' || 
+                COALESCE(form_data->>'groomName', 'groom') || '-wedding'
+            );
+        WHEN 'birthday' THEN
+            base_slug := LOWER(
+                COALESCE(form_data->>'celebrantName', 'birthday') || '-birthday-' ||
+                COALESCE(form_data->>'age', 'party')
+            );
+        WHEN 'graduation' THEN
+            base_slug := LOWER(
+                COALESCE(form_data->>'graduateName', 'graduate') || '-graduation'
+            );
+        WHEN 'anniversary' THEN
+            base_slug := LOWER(
+                COALESCE(form_data->>'partnerOneName', 'partner') || '-' ||
+                COALESCE(form_data->>'partnerTwoName', 'partner') || '-anniversary'
+            );
+        WHEN 'party' THEN
+            base_slug := LOWER(
+                COALESCE(form_data->>'partyTitle', form_data->>'hostName', 'party') || '-party'
+            );
+        ELSE
+            base_slug := invitation_type || '-invitation';
+    END CASE;
+    
+    -- Clean up slug
+    base_slug := REGEXP_REPLACE(base_slug, '[^a-z0-9-]', '-', 'g');
+    base_slug := REGEXP_REPLACE(base_slug, '-+', '-', 'g');
+    base_slug := TRIM(BOTH '-' FROM base_slug);
+    
+    -- Ensure uniqueness
+    final_slug := base_slug;
+    WHILE EXISTS (SELECT 1 FROM invitations WHERE slug = final_slug)
+        OR EXISTS (SELECT 1 FROM invitation_slug_redirects WHERE slug = final_slug) LOOP
+        final_slug := base_slug || '-' || counter;
+        counter := counter + 1;
+    END LOOP;
+    
+    RETURN final_slug;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Change the slug of an invitation owned by p_user_id; returns NULL when there is no such invitation.
+-- Raises unique_violation when the slug belongs to another invitation.
+CREATE OR REPLACE FUNCTION change_invitation_slug(inv_id UUID, p_user_id UUID, p_slug TEXT)
+RETURNS invitations AS $$
+DECLARE
+    v_invitation invitations;
+BEGIN
+    SELECT * INTO v_invitation
+    FROM invitations
+    WHERE id = inv_id
+    AND user_id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_invitation.slug = p_slug THEN
+        RETURN v_invitation;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM invitations WHERE slug = p_slug)
+        OR EXISTS (SELECT 1 FROM invitation_slug_redirects WHERE slug = p_slug AND invitation_id <> inv_id) THEN
+        RAISE EXCEPTION 'Slug % is already taken', p_slug USING ERRCODE = 'unique_violation';
+    END IF;
+
+    -- The invitation takes back one of its own previous slugs
+    DELETE FROM invitation_slug_redirects
+    WHERE slug = p_slug
+    AND invitation_id = inv_id;
+
+    -- Links to an invitation that has been published may already be shared
+    IF v_invitation.published_at IS NOT NULL THEN
+        INSERT INTO invitation_slug_redirects (invitation_id, slug)
+        VALUES (inv_id, v_invitation.slug);
+    END IF;
+
+    UPDATE invitations
+    SET slug = p_slug,
+        updated_at = NOW()
+    WHERE id = inv_id
+    RETURNING * INTO v_invitation;
+
+    RETURN v_invitation;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,15 @@
+-- Private invitations
+-- An invitation is public, password protected or only open to listed guests (personalized link tokens)
+
+ALTER TABLE invitations
+    ADD COLUMN IF NOT EXISTS access_mode VARCHAR(20) NOT NULL DEFAULT 'public'
+        CHECK (access_mode IN ('public', 'password', 'guest_list')),
+    ADD COLUMN IF NOT EXISTS access_updated_at TIMESTAMPTZ;
+
+-- Password hashes live outside invitations so they are never returned with the invitation row
+CREATE TABLE IF NOT EXISTS invitation_access_passwords (
+    invitation_id UUID PRIMARY KEY REFERENCES invitations(id) ON DELETE CASCADE,
+    password_hash TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
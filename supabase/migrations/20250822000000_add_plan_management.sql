@@ -0,0 +1,58 @@
+-- Admin plan management
+-- Columns the admin API reads from plans and invites, and the templates included in each plan
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'plans' AND column_name = 'type'
+    ) THEN
+        ALTER TABLE plans ADD COLUMN type VARCHAR(20) NOT NULL DEFAULT 'FREE'
+            CHECK (type IN ('FREE', 'PREMIUM'));
+
+        -- Plans that already charge are premium
+        UPDATE plans SET type = CASE WHEN price > 0 THEN 'PREMIUM' ELSE 'FREE' END;
+    END IF;
+END $$;
+
+ALTER TABLE plans
+    ADD COLUMN IF NOT EXISTS invite_type VARCHAR(20) NOT NULL DEFAULT 'OTHER'
+        CHECK (invite_type IN ('WEDDING', 'BIRTHDAY', 'PARTY', 'CORPORATE', 'OTHER'));
+
+ALTER TABLE invites ADD COLUMN IF NOT EXISTS plan_id UUID REFERENCES plans(id);
+
+CREATE INDEX IF NOT EXISTS idx_invites_plan_id ON invites(plan_id);
+CREATE INDEX IF NOT EXISTS idx_orders_plan_id ON orders(plan_id);
+
+CREATE TABLE IF NOT EXISTS plan_templates (
+    plan_id UUID NOT NULL REFERENCES plans(id) ON DELETE CASCADE,
+    template_id UUID NOT NULL REFERENCES templates(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (plan_id, template_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_plan_templates_template_id ON plan_templates(template_id);
+
+ALTER TABLE plan_templates ENABLE ROW LEVEL SECURITY;
+
+-- Replace the templates of a plan in one transaction
+CREATE OR REPLACE FUNCTION set_plan_templates(p_plan_id UUID, p_template_ids UUID[])
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM plans WHERE id = p_plan_id) THEN
+        RAISE EXCEPTION 'Plan not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM unnest(p_template_ids) AS requested(id)
+        WHERE NOT EXISTS (SELECT 1 FROM templates WHERE templates.id = requested.id)
+    ) THEN
+        RAISE EXCEPTION 'Template not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    DELETE FROM plan_templates WHERE plan_id = p_plan_id;
+
+    INSERT INTO plan_templates (plan_id, template_id)
+    SELECT p_plan_id, id FROM unnest(p_template_ids) AS requested(id);
+END;
+$$ LANGUAGE plpgsql;
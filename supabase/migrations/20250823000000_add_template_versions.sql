@@ -0,0 +1,94 @@
+-- Template versioning
+-- Every change to what a template renders creates an immutable version; published invitations pin one
+
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS template_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    template_id UUID NOT NULL REFERENCES templates(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+
+    -- Snapshot of the rendered parts of the template
+    template_data JSONB NOT NULL,
+    default_config JSONB,
+    supported_fields JSONB,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE (template_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_template_versions_template_id ON template_versions(template_id, version DESC);
+
+-- Existing templates start at version 1
+INSERT INTO template_versions (template_id, version, template_data, default_config, supported_fields)
+SELECT id, current_version, template_data, default_config, supported_fields
+FROM templates
+ON CONFLICT (template_id, version) DO NOTHING;
+
+-- Version an invitation renders with; NULL follows the latest version (drafts)
+ALTER TABLE invitations ADD COLUMN IF NOT EXISTS template_version INTEGER;
+
+-- Bump the version when the rendered parts of a template change
+CREATE OR REPLACE FUNCTION bump_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.current_version := 1;
+    ELSIF NEW.template_data IS DISTINCT FROM OLD.template_data
+        OR NEW.default_config IS DISTINCT FROM OLD.default_config
+        OR NEW.supported_fields IS DISTINCT FROM OLD.supported_fields THEN
+        NEW.current_version := OLD.current_version + 1;
+    ELSE
+        NEW.current_version := OLD.current_version;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Snapshot the new version once the template row is written
+CREATE OR REPLACE FUNCTION record_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.current_version <> OLD.current_version THEN
+        INSERT INTO template_versions (template_id, version, template_data, default_config, supported_fields)
+        VALUES (NEW.id, NEW.current_version, NEW.template_data, NEW.default_config, NEW.supported_fields);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Versions are never edited
+CREATE OR REPLACE FUNCTION prevent_template_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Template versions are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_template_version ON templates;
+CREATE TRIGGER bump_template_version
+    BEFORE INSERT OR UPDATE ON templates
+    FOR EACH ROW EXECUTE FUNCTION bump_template_version();
+
+DROP TRIGGER IF EXISTS record_template_version ON templates;
+CREATE TRIGGER record_template_version
+    AFTER INSERT OR UPDATE ON templates
+    FOR EACH ROW EXECUTE FUNCTION record_template_version();
+
+DROP TRIGGER IF EXISTS prevent_template_version_update ON template_versions;
+CREATE TRIGGER prevent_template_version_update
+    BEFORE UPDATE ON template_versions
+    FOR EACH ROW EXECUTE FUNCTION prevent_template_version_update();
+
+-- Published invitations keep rendering the version that was live when they were published
+UPDATE invitations i
+SET template_version = t.current_version
+FROM templates t
+WHERE i.template_id = t.id
+AND i.is_published = true
+AND i.template_version IS NULL;
+
+ALTER TABLE template_versions ENABLE ROW LEVEL SECURITY;
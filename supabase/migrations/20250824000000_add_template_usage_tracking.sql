@@ -0,0 +1,71 @@
+-- Template usage and popularity
+-- usage_count is the number of invitations using a template; the scheduler recounts it and recalculates popularity_score
+
+-- Move usage_count by p_delta in a single statement so concurrent changes are not lost, never below zero
+CREATE OR REPLACE FUNCTION adjust_template_usage(p_template_id UUID, p_delta INTEGER)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE templates
+    SET usage_count = GREATEST(COALESCE(usage_count, 0) + p_delta, 0)
+    WHERE id = p_template_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Last run of periodic jobs, shared by every server instance and cron invocation
+CREATE TABLE IF NOT EXISTS scheduler_runs (
+    job VARCHAR(50) PRIMARY KEY,
+    last_run_at TIMESTAMPTZ NOT NULL
+);
+
+ALTER TABLE scheduler_runs ENABLE ROW LEVEL SECURITY;
+
+-- Recount usage_count from the invitations themselves (correcting any drift of the per-change
+-- adjustments) and score every template from its usage, the views of its invitations and how many
+-- were published recently. Publishing doesn't change which template an invitation uses, so it is
+-- weighted here rather than counted as usage.
+-- Returns the number of templates that changed, or NULL when the last run was less than
+-- p_min_interval_seconds ago.
+CREATE OR REPLACE FUNCTION recalculate_template_popularity(p_recent_days INTEGER DEFAULT 30, p_min_interval_seconds INTEGER DEFAULT 0)
+RETURNS INTEGER AS $$
+DECLARE
+    v_due BOOLEAN;
+    v_updated INTEGER;
+BEGIN
+    -- Claim the run; concurrent callers within the interval get nothing back and skip
+    INSERT INTO scheduler_runs (job, last_run_at)
+    VALUES ('template_popularity', NOW())
+    ON CONFLICT (job) DO UPDATE
+    SET last_run_at = NOW()
+    WHERE scheduler_runs.last_run_at <= NOW() - make_interval(secs => p_min_interval_seconds)
+    RETURNING true INTO v_due;
+
+    IF v_due IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE templates t
+    SET
+        usage_count = s.usage_count,
+        popularity_score = s.score
+    FROM (
+        SELECT
+            tt.id,
+            COUNT(i.id)::INTEGER AS usage_count,
+            (
+                COUNT(i.id) * 10
+                + COALESCE(SUM(i.view_count), 0) / 10
+                + COUNT(i.id) FILTER (WHERE i.published_at > NOW() - make_interval(days => p_recent_days)) * 25
+            )::INTEGER AS score
+        FROM templates tt
+        LEFT JOIN invitations i ON i.template_id = tt.id
+        GROUP BY tt.id
+    ) s
+    WHERE t.id = s.id
+    AND (t.usage_count IS DISTINCT FROM s.usage_count OR t.popularity_score IS DISTINCT FROM s.score);
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT recalculate_template_popularity();
@@ -0,0 +1,26 @@
+-- Version of an invitation's editable content, used for ETag / If-Match on edits.
+-- updated_at can't serve: view and RSVP counters update the row on every guest visit.
+
+ALTER TABLE invitations ADD COLUMN IF NOT EXISTS content_version INTEGER NOT NULL DEFAULT 1;
+
+-- Bump content_version when the host's content changes, whichever statement changes it
+CREATE OR REPLACE FUNCTION bump_invitation_content_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.title IS DISTINCT FROM OLD.title
+        OR NEW.form_data IS DISTINCT FROM OLD.form_data
+        OR NEW.template_customization IS DISTINCT FROM OLD.template_customization
+        OR NEW.template_id IS DISTINCT FROM OLD.template_id
+    THEN
+        NEW.content_version := OLD.content_version + 1;
+    ELSE
+        NEW.content_version := OLD.content_version;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_invitations_content_version ON invitations;
+CREATE TRIGGER bump_invitations_content_version
+    BEFORE UPDATE ON invitations
+    FOR EACH ROW EXECUTE FUNCTION bump_invitation_content_version();